@@ -36,11 +36,12 @@ export default function App() {
   const [activeTab, setActiveTab] = useState("All Agents");
   const [showAddModal, setShowAddModal] = useState(false);
   const [initialAgents, setInitialAgents] = useState<AgentConfig[]>([]);
-  const [availableModels, setAvailableModels] = useState<Array<{ id: string; name: string }>>([]);
-  const [defaultModel, setDefaultModel] = useState<string>("");
   const [isLoading, setIsLoading] = useState(true);
   const columnOrder = useDeckStore((s) => s.columnOrder);
   const createAgentOnGateway = useDeckStore((s) => s.createAgentOnGateway);
+  const setGatewayInfo = useDeckStore((s) => s.setGatewayInfo);
+  const availableModels = useDeckStore((s) => s.availableModels);
+  const defaultModel = useDeckStore((s) => s.defaultModel);
   const theme = useDeckStore((s) => s.theme);
 
   const { gatewayUrl, token } = getGatewayConfig();
@@ -53,10 +54,10 @@ export default function App() {
       const config = await fetchGatewayConfig(gatewayUrl, token);
       if (!mounted) return;
 
-      setDefaultModel(config.defaultModel);
-      setAvailableModels(config.availableModels);
-      // Create agents with fetched config
-      const agents = buildDefaultAgents(7, config.defaultModel);
+      setGatewayInfo(config);
+      // Start with the gateway's default agent; the real agent list replaces
+      // it after the connect handshake (see syncAgentsFromGateway)
+      const agents = buildDefaultAgents(1, config.defaultModel);
       setInitialAgents(agents);
       setIsLoading(false);
     }
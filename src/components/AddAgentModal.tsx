@@ -2,6 +2,7 @@ import { useState, type KeyboardEvent } from "react";
 import type { AgentConfig } from "../types";
 import styles from "./AddAgentModal.module.css";
 import { FALLBACK_MODELS } from "../lib/gateway-config";
+import { formatContextWindow, resolveModel, type ModelInfo } from "../lib/models";
 
 const ACCENTS = [
   "#22d3ee", // cyan
@@ -17,10 +18,21 @@ const ACCENTS = [
 interface AddAgentModalProps {
   onClose: () => void;
   onCreate: (agent: AgentConfig) => Promise<void>;
-  availableModels?: Array<{ id: string; name: string }>;
+  /** Model registry (see lib/models.ts) */
+  availableModels?: ModelInfo[];
   defaultModel?: string;
 }
 
+function modelDetails(model: ModelInfo | undefined): string {
+  if (!model) return "";
+  const parts = [model.id, `${model.contextWindow.toLocaleString()} token context`];
+  if (model.pricing) {
+    parts.push(`$${model.pricing.input} in / $${model.pricing.output} out per M tokens`);
+  }
+  if (model.aliases.length > 0) parts.push(`aliases: ${model.aliases.join(", ")}`);
+  return parts.join(" · ");
+}
+
 export function AddAgentModal({
   onClose,
   onCreate,
@@ -35,6 +47,7 @@ export function AddAgentModal({
   const [accent, setAccent] = useState(ACCENTS[1]);
   const [context, setContext] = useState("");
   const [model, setModel] = useState(initialModel);
+  const [scratch, setScratch] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -57,6 +70,7 @@ export function AddAgentModal({
         accent,
         context: context.trim() || name.trim(),
         model,
+        ...(scratch ? { scratch: true } : {}),
       });
       onClose();
     } catch (err) {
@@ -137,11 +151,23 @@ export function AddAgentModal({
             onChange={(e) => setModel(e.target.value)}
           >
             {models.map((m) => (
-              <option key={m.id} value={m.id}>{m.name}</option>
+              <option key={m.id} value={m.id}>
+                {m.name} · {formatContextWindow(m.contextWindow)}
+              </option>
             ))}
           </select>
+          <div className={styles.modelInfo}>{modelDetails(resolveModel(models, model))}</div>
         </div>
 
+        <label className={styles.checkboxRow}>
+          <input
+            type="checkbox"
+            checked={scratch}
+            onChange={(e) => setScratch(e.target.checked)}
+          />
+          Local scratch column (not created on the gateway)
+        </label>
+
         {error && <div className={styles.error}>{error}</div>}
 
         <div className={styles.actions}>
@@ -1,4 +1,12 @@
-import { useState, type KeyboardEvent } from "react";
+import {
+  Fragment,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  type KeyboardEvent,
+} from "react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import rehypeHighlight from "rehype-highlight";
@@ -10,7 +18,19 @@ import {
   useAutoScroll,
 } from "../hooks";
 import { useDeckStore } from "../lib/store";
-import type { AgentStatus, ChatMessage, AgentSession } from "../types";
+import { AgentSettingsDrawer } from "./AgentSettingsDrawer";
+import { SessionPicker } from "./SessionPicker";
+import { resolveVersions, versionOf, type VersionInfo } from "../lib/versions";
+import { linkedColumns } from "../lib/pipelines";
+import { completeCommand, runCommand, type SlashCommand } from "../lib/commands";
+import { CommandMenu } from "./CommandMenu";
+import { SnippetPicker } from "./SnippetPicker";
+import { ExportMenu } from "./ExportMenu";
+import { BUDGET_EXCEEDED, checkBudgets } from "../lib/budgets";
+import { contextWindowFor } from "../lib/models";
+import { COMPACTION_SUGGEST_PERCENT, compactedSinceLastPrompt } from "../lib/compaction";
+import { formatCost } from "../lib/usage";
+import type { AgentStatus, ChatMessage, AgentSession, PipelineHop } from "../types";
 import styles from "./AgentColumn.module.css";
 
 // ─── Status Indicator ───
@@ -50,20 +70,73 @@ function StatusBadge({
   );
 }
 
+// ─── Reasoning Section ───
+
+function ReasoningSection({ message }: { message: ChatMessage }) {
+  // Open while the model is still thinking, collapsed once the answer
+  // starts — until the user opens or closes it themselves
+  const [userOpen, setUserOpen] = useState<boolean | null>(null);
+  const thinking = !!message.streaming && !message.text;
+  const open = userOpen ?? thinking;
+
+  return (
+    <div className={styles.reasoning}>
+      <button
+        className={styles.reasoningToggle}
+        onClick={() => setUserOpen(!open)}
+        aria-expanded={open}
+      >
+        {open ? "▾" : "▸"} {thinking ? (
+          <span className={styles.thinkingDot}>reasoning…</span>
+        ) : (
+          "reasoning"
+        )}
+      </button>
+      {open && <div className={styles.reasoningText}>{message.reasoning}</div>}
+    </div>
+  );
+}
+
 // ─── Message Bubble ───
 
 function MessageBubble({
+  agentId,
   message,
   accent,
+  versions,
+  editable = false,
+  regenerable = false,
+  onSelectVersion,
+  onRerun,
+  onFork,
 }: {
+  agentId: string;
   message: ChatMessage;
   accent: string;
+  versions?: VersionInfo;
+  editable?: boolean;
+  regenerable?: boolean;
+  onSelectVersion?: (group: string, index: number) => void;
+  onRerun?: (group?: string) => void;
+  onFork?: (messageId: string) => void;
 }) {
   const isUser = message.role === "user";
+  const showReasoning = useDeckStore((s) => s.showReasoning);
+  const editAndResend = useDeckStore((s) => s.editAndResend);
+  const regenerateMessage = useDeckStore((s) => s.regenerateMessage);
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const submitDraft = () => {
+    const text = draft?.trim();
+    setDraft(null);
+    if (!text) return;
+    onRerun?.(message.versionGroup);
+    void editAndResend(agentId, message.id, text);
+  };
 
   if (message.thinking) {
     return (
-      <div className={styles.thinkingBubble}>
+      <div className={styles.thinkingBubble} data-message-id={message.id}>
         <span className={styles.thinkingDot} style={{ color: accent }}>
           ●
         </span>
@@ -72,28 +145,23 @@ function MessageBubble({
     );
   }
 
-  if (message.toolUse) {
-    return (
-      <div className={styles.toolBubble}>
-        <span className={styles.toolIcon}>⚙</span>
-        <span>
-          {message.toolUse.name}
-          {message.toolUse.status === "running" && (
-            <span className={styles.thinkingDot}> ...</span>
-          )}
-        </span>
-      </div>
-    );
-  }
-
   return (
     <div
+      data-message-id={message.id}
       className={`${styles.messageBubble} ${
         isUser ? styles.userMsg : styles.assistantMsg
       }`}
     >
-      {isUser && <div className={styles.roleLabel}>You</div>}
+      {isUser && (
+        <div className={styles.roleLabel}>
+          You{message.broadcastId ? " · ⇉ broadcast" : ""}
+          {message.pipeline && <PipelineSource hop={message.pipeline} />}
+        </div>
+      )}
       {!isUser && <div className={styles.roleLabel}>Assistant</div>}
+      {!isUser && showReasoning && message.reasoning && (
+        <ReasoningSection message={message} />
+      )}
       <div
         className={styles.messageText}
         style={
@@ -102,7 +170,23 @@ function MessageBubble({
             : { borderLeft: `2px solid ${accent}33`, paddingLeft: 12 }
         }
       >
-        {isUser ? (
+        {isUser && draft !== null ? (
+          <textarea
+            className={styles.queuedEditor}
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                submitDraft();
+              } else if (e.key === "Escape") {
+                setDraft(null);
+              }
+            }}
+            rows={3}
+            autoFocus
+          />
+        ) : isUser ? (
           message.text
         ) : (
           <ReactMarkdown
@@ -121,6 +205,308 @@ function MessageBubble({
           <span className={styles.cursor} style={{ backgroundColor: accent }} />
         )}
       </div>
+      {message.aborted && <div className={styles.abortedMarker}>■ stopped</div>}
+      {(versions || editable || regenerable || onFork) && draft === null && (
+        <div className={styles.messageActions}>
+          {versions && (
+            <span
+              className={styles.versionPager}
+              title="Each version ran in its own session from the same context; new turns continue the newest one"
+            >
+              <button
+                onClick={() => onSelectVersion?.(versions.group, versions.index - 1)}
+                disabled={versions.index === 0}
+                aria-label="Previous version"
+              >
+                ‹
+              </button>
+              {versions.index + 1}/{versions.count}
+              <button
+                onClick={() => onSelectVersion?.(versions.group, versions.index + 1)}
+                disabled={versions.index === versions.count - 1}
+                aria-label="Next version"
+              >
+                ›
+              </button>
+            </span>
+          )}
+          {editable && (
+            <button
+              onClick={() => setDraft(message.text)}
+              title="Edit and resend as a new version"
+            >
+              ✎ Edit
+            </button>
+          )}
+          {regenerable && (
+            <button
+              onClick={() => {
+                onRerun?.(versions?.group);
+                void regenerateMessage(agentId, message.id);
+              }}
+              title="Generate another answer"
+            >
+              ↻ Regenerate
+            </button>
+          )}
+          {onFork && !message.streaming && (
+            <button
+              onClick={() => onFork(message.id)}
+              title="Continue from here in a new column"
+            >
+              ⑂ Fork
+            </button>
+          )}
+        </div>
+      )}
+      {draft !== null && (
+        <div className={styles.queuedActions}>
+          <span>Enter to resend · Esc to cancel · the original stays in the agent's context</span>
+          <button onClick={submitDraft}>Send</button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Pipeline indicators ───
+
+function PipelineSource({ hop }: { hop: PipelineHop }) {
+  const from = useDeckStore(
+    (s) => s.config.agents.find((a) => a.id === hop.fromAgentId)?.name
+  );
+  return (
+    <>
+      {" · "}⛓ from {from ?? hop.fromAgentId} (hop {hop.hop})
+    </>
+  );
+}
+
+/** Header badge naming the columns this one is chained to */
+function PipelineBadge({ agentId }: { agentId: string }) {
+  const pipelines = useDeckStore((s) => s.pipelines);
+  const agents = useDeckStore((s) => s.config.agents);
+  const { upstream, downstream } = useMemo(
+    () => linkedColumns(pipelines, agentId),
+    [pipelines, agentId]
+  );
+  if (upstream.length === 0 && downstream.length === 0) return null;
+
+  const names = (ids: string[]) =>
+    ids.map((id) => agents.find((a) => a.id === id)?.name ?? id).join(", ");
+  const parts = [
+    upstream.length > 0 ? `← ${names(upstream)}` : "",
+    downstream.length > 0 ? `→ ${names(downstream)}` : "",
+  ].filter(Boolean);
+
+  return (
+    <span className={styles.pipelineBadge} title="Linked by a pipeline">
+      ⛓ {parts.join(" ")}
+    </span>
+  );
+}
+
+// ─── Tool Call Bubble ───
+
+/** Result characters shown before "show full result" */
+const TOOL_RESULT_PREVIEW = 600;
+
+function formatToolArgs(args: unknown): string {
+  if (args === undefined) return "";
+  return typeof args === "string" ? args : JSON.stringify(args, null, 2);
+}
+
+function ToolCallBubble({ message }: { message: ChatMessage }) {
+  const [expanded, setExpanded] = useState(false);
+  const [fullResult, setFullResult] = useState(false);
+  const tool = message.toolUse!;
+  const args = formatToolArgs(tool.args);
+  const result = tool.result ?? "";
+  const truncated = !fullResult && result.length > TOOL_RESULT_PREVIEW;
+
+  let state: string;
+  if (tool.status === "running") {
+    state = "running…";
+  } else if (tool.status === "error") {
+    state = "error";
+  } else {
+    state =
+      tool.durationMs !== undefined
+        ? `done ${(tool.durationMs / 1000).toFixed(1)}s`
+        : "done";
+  }
+
+  return (
+    <div className={styles.toolBubble} data-message-id={message.id}>
+      <button
+        className={styles.toolHeader}
+        onClick={() => setExpanded((v) => !v)}
+        aria-expanded={expanded}
+      >
+        <span className={styles.toolIcon}>{expanded ? "▾" : "▸"} ⚙</span>
+        <span className={styles.toolName}>{tool.name}</span>
+        <span
+          className={`${styles.toolState} ${
+            tool.status === "running"
+              ? styles.thinkingDot
+              : tool.status === "error"
+                ? styles.toolError
+                : ""
+          }`}
+        >
+          {state}
+        </span>
+      </button>
+      {expanded && (
+        <div className={styles.toolDetails}>
+          {args && (
+            <>
+              <div className={styles.toolSection}>arguments</div>
+              <pre className={styles.toolPre}>{args}</pre>
+            </>
+          )}
+          {result && (
+            <>
+              <div className={styles.toolSection}>result</div>
+              <pre className={styles.toolPre}>
+                {truncated ? `${result.slice(0, TOOL_RESULT_PREVIEW)}…` : result}
+              </pre>
+              {truncated && (
+                <button
+                  className={styles.toolMore}
+                  onClick={() => setFullResult(true)}
+                >
+                  show full result ({result.length.toLocaleString()} chars)
+                </button>
+              )}
+            </>
+          )}
+          {!args && !result && (
+            <div className={styles.toolSection}>no details</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ─── Run Error Bubble ───
+
+function ErrorBubble({
+  agentId,
+  message,
+  busy,
+}: {
+  agentId: string;
+  message: ChatMessage;
+  busy: boolean;
+}) {
+  const retryRun = useDeckStore((s) => s.retryRun);
+  const overrideBudget = useDeckStore((s) => s.overrideBudget);
+  const gatewayConnected = useDeckStore((s) => s.gatewayConnected);
+  const error = message.error;
+
+  if (error?.code === BUDGET_EXCEEDED) {
+    return (
+      <div className={styles.errorBubble} role="alert" data-message-id={message.id}>
+        <div className={styles.errorLabel}>⛔ Not sent · budget limit</div>
+        <div className={styles.errorText}>{error.message}</div>
+        {error.prompt && (
+          <button
+            className={styles.retryBtn}
+            onClick={() => {
+              overrideBudget(agentId);
+              void retryRun(agentId, message.id);
+            }}
+            disabled={busy}
+            title="Lift the limit for the rest of its period and send"
+          >
+            Override &amp; send
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className={styles.errorBubble} role="alert" data-message-id={message.id}>
+      <div className={styles.errorLabel}>
+        ⚠ Run failed{error?.code ? ` · ${error.code}` : ""}
+      </div>
+      <div className={styles.errorText}>{error?.message ?? message.text}</div>
+      {error?.prompt && (
+        <button
+          className={styles.retryBtn}
+          onClick={() => retryRun(agentId, message.id)}
+          disabled={!gatewayConnected || busy}
+          title={
+            gatewayConnected ? "Send the same message again" : "Gateway offline"
+          }
+        >
+          ↻ Retry
+        </button>
+      )}
+    </div>
+  );
+}
+
+// ─── Queued (offline) Message Bubble ───
+
+function QueuedMessageBubble({
+  agentId,
+  message,
+}: {
+  agentId: string;
+  message: ChatMessage;
+}) {
+  const editQueuedMessage = useDeckStore((s) => s.editQueuedMessage);
+  const cancelQueuedMessage = useDeckStore((s) => s.cancelQueuedMessage);
+  const [draft, setDraft] = useState<string | null>(null);
+
+  const saveDraft = () => {
+    const text = draft?.trim();
+    if (text) editQueuedMessage(agentId, message.id, text);
+    setDraft(null);
+  };
+
+  return (
+    <div className={`${styles.messageBubble} ${styles.userMsg} ${styles.queuedMsg}`} data-message-id={message.id}>
+      <div className={styles.roleLabel}>You · queued</div>
+      {draft === null ? (
+        <div className={styles.messageText}>{message.text}</div>
+      ) : (
+        <textarea
+          className={styles.queuedEditor}
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              saveDraft();
+            } else if (e.key === "Escape") {
+              setDraft(null);
+            }
+          }}
+          rows={3}
+          autoFocus
+        />
+      )}
+      <div className={styles.queuedActions}>
+        {draft === null ? (
+          <>
+            <span>sends when the gateway reconnects</span>
+            <button onClick={() => setDraft(message.text)}>Edit</button>
+            <button onClick={() => cancelQueuedMessage(agentId, message.id)}>
+              Cancel
+            </button>
+          </>
+        ) : (
+          <>
+            <button onClick={saveDraft}>Save</button>
+            <button onClick={() => setDraft(null)}>Discard</button>
+          </>
+        )}
+      </div>
     </div>
   );
 }
@@ -133,7 +519,7 @@ function AnnouncementBubble({
   message: ChatMessage;
 }) {
   return (
-    <div className={styles.announcementBubble}>
+    <div className={styles.announcementBubble} data-message-id={message.id}>
       <div className={styles.announcementLabel}>🔔 Sub-agent</div>
       <div className={styles.announcementText}>
         <ReactMarkdown
@@ -157,18 +543,59 @@ function AnnouncementBubble({
 
 // ─── Compaction Divider ───
 
+const ROLE_LABELS: Partial<Record<ChatMessage["role"], string>> = {
+  user: "you",
+  assistant: "agent",
+  announcement: "announce",
+  tool: "tool",
+};
+
 function CompactionDivider({ message }: { message: ChatMessage }) {
+  const [expanded, setExpanded] = useState(false);
   const c = message.compaction;
   if (!c) return null;
 
+  // The summarized messages are filled in once they are read from the gateway
+  const summarized = c.summarized ?? [];
+  const hasDetails = !!c.summary || summarized.length > 0;
+
   return (
-    <div className={styles.compactionDivider}>
-      <div className={styles.compactionLine} />
-      <span className={styles.compactionLabel}>
-        context compacted &middot; {c.droppedMessages} msgs dropped &middot;{" "}
-        {c.beforeTokens.toLocaleString()} &rarr; {c.afterTokens.toLocaleString()} tokens
-      </span>
-      <div className={styles.compactionLine} />
+    <div className={styles.compaction} data-message-id={message.id}>
+      <div className={styles.compactionDivider}>
+        <div className={styles.compactionLine} />
+        <button
+          className={styles.compactionLabel}
+          onClick={() => setExpanded((v) => !v)}
+          disabled={!hasDetails}
+          aria-expanded={expanded}
+        >
+          {hasDetails ? (expanded ? "▾ " : "▸ ") : ""}
+          context compacted &middot; {c.droppedMessages} msgs dropped &middot;{" "}
+          {c.beforeTokens.toLocaleString()} &rarr; {c.afterTokens.toLocaleString()} tokens
+        </button>
+        <div className={styles.compactionLine} />
+      </div>
+      {expanded && hasDetails && (
+        <div className={styles.compactionDetails}>
+          {c.summary && (
+            <>
+              <div className={styles.compactionHeading}>Summary</div>
+              <div className={styles.compactionSummary}>{c.summary}</div>
+            </>
+          )}
+          {summarized.length > 0 && (
+            <>
+              <div className={styles.compactionHeading}>Summarized away</div>
+              {summarized.map((msg, i) => (
+                <div key={i} className={styles.compactionDropped}>
+                  <span className={styles.compactionRole}>{ROLE_LABELS[msg.role] ?? msg.role}</span>
+                  <span className={styles.compactionText}>{msg.text}</span>
+                </div>
+              ))}
+            </>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -186,31 +613,90 @@ function FailoverBadge({ session }: { session: AgentSession }) {
   );
 }
 
-// ─── Context Window Helper ───
-
-const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
-  "gpt-4": 128000,
-  "gpt-4o": 128000,
-  "gpt-4-turbo": 128000,
-  "claude-3-5-sonnet": 200000,
-  "claude-3-opus": 200000,
-  "claude-sonnet-4": 200000,
-  "gemini-2.0-flash": 1000000,
-  "gemini-2.5-flash": 1000000,
-  "gemini-2.5-pro": 2000000,
-};
+function BudgetBadge({ agentId }: { agentId: string }) {
+  const agent = useDeckStore((s) => s.config.agents.find((a) => a.id === agentId));
+  const deckBudget = useDeckStore((s) => s.deckBudget);
+  const ledger = useDeckStore((s) => s.usageLedger);
+  const overrides = useDeckStore((s) => s.budgetOverrides);
+  const check = checkBudgets(agent, deckBudget, ledger, overrides);
+  if (!check) return null;
+
+  return (
+    <span
+      className={`${styles.budgetBadge} ${check.level === "hard" ? styles.budgetHard : ""}`}
+      title={check.overridden ? `${check.reason} (overridden)` : check.reason}
+    >
+      {check.level === "hard" ? "⛔ budget" : check.overridden ? "budget overridden" : "⚠ budget"}
+    </span>
+  );
+}
+
+// ─── Model Switcher ───
 
-function getContextWindow(model?: string): number {
-  if (!model) return 200000; // default
-  
-  // Match partial model names
-  for (const [key, size] of Object.entries(MODEL_CONTEXT_WINDOWS)) {
-    if (model.toLowerCase().includes(key.toLowerCase())) {
-      return size;
+function ModelSwitcher({
+  agentId,
+  model,
+  accent,
+}: {
+  agentId: string;
+  model?: string;
+  accent: string;
+}) {
+  const availableModels = useDeckStore((s) => s.availableModels);
+  const updateAgentConfig = useDeckStore((s) => s.updateAgentConfig);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Each error clears itself after a while; a newer error restarts the timer
+  useEffect(() => {
+    if (!error) return;
+    const timer = setTimeout(() => setError(null), 5000);
+    return () => clearTimeout(timer);
+  }, [error]);
+
+  // Keep the current model selectable even if the gateway no longer lists it
+  const options =
+    model && !availableModels.some((m) => m.id === model)
+      ? [...availableModels, { id: model, name: model }]
+      : availableModels;
+
+  const handleChange = async (next: string) => {
+    if (next === model) return;
+    setSaving(true);
+    setError(null);
+    try {
+      await updateAgentConfig(agentId, { model: next });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Model switch failed");
+    } finally {
+      setSaving(false);
     }
-  }
-  
-  return 200000; // default fallback
+  };
+
+  return (
+    <>
+      <select
+        className={styles.modelSelect}
+        value={model ?? ""}
+        onChange={(e) => handleChange(e.target.value)}
+        disabled={saving}
+        title="Switch model"
+        style={{ color: accent }}
+      >
+        {!model && <option value="">default model</option>}
+        {options.map((m) => (
+          <option key={m.id} value={m.id}>
+            {m.id}
+          </option>
+        ))}
+      </select>
+      {error && (
+        <span className={styles.modelError} title={error}>
+          ⚠ {error}
+        </span>
+      )}
+    </>
+  );
 }
 
 // ─── Main Column ───
@@ -220,25 +706,150 @@ export function AgentColumn({ agentId, columnIndex }: { agentId: string; columnI
   const config = useAgentConfig(agentId);
   const send = useSendMessage(agentId);
   const deleteAgentOnGateway = useDeckStore((s) => s.deleteAgentOnGateway);
+  const gatewayConnected = useDeckStore((s) => s.gatewayConnected);
+  const abortRun = useDeckStore((s) => s.abortRun);
+  const models = useDeckStore((s) => s.availableModels);
+  const compactSession = useDeckStore((s) => s.compactSession);
+  const [compactionDismissed, setCompactionDismissed] = useState(false);
   const [input, setInput] = useState("");
   const [confirmDelete, setConfirmDelete] = useState(false);
-  const scrollRef = useAutoScroll(session?.messages);
+  const [showSettings, setShowSettings] = useState(false);
+  const [commandIndex, setCommandIndex] = useState(0);
+  const [commandFeedback, setCommandFeedback] = useState<string | null>(null);
+  const [showSnippets, setShowSnippets] = useState(false);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+  const loadOlderHistory = useDeckStore((s) => s.loadOlderHistory);
+  const loadOlder = useCallback(() => loadOlderHistory(agentId), [agentId, loadOlderHistory]);
+  const { ref: scrollRef, onScroll } = useAutoScroll(session?.messages, loadOlder);
+  // Version shown per group; groups without a choice show their newest version
+  const [versionChoices, setVersionChoices] = useState<Record<string, number>>({});
+  const transcript = useMemo(
+    () => resolveVersions(session?.messages ?? [], versionChoices),
+    [session?.messages, versionChoices]
+  );
+  const selectVersion = useCallback(
+    (group: string, index: number) =>
+      setVersionChoices((prev) => ({ ...prev, [group]: index })),
+    []
+  );
+  const forkColumn = useDeckStore((s) => s.forkColumn);
+  const forkHere = useCallback(
+    (messageId: string) => void forkColumn(agentId, messageId, versionChoices),
+    [agentId, forkColumn, versionChoices]
+  );
+  // A re-run turn streams in as the newest version, so stop pinning an older one
+  const showNewestVersion = useCallback((group?: string) => {
+    if (!group) return;
+    setVersionChoices(({ [group]: _, ...rest }) => rest);
+  }, []);
+
+  // Jump to a message picked in the search panel, showing its version first
+  const focused = useDeckStore((s) =>
+    s.focusedMessage?.agentId === agentId ? s.focusedMessage : null
+  );
+  const flashedAt = useRef(0);
+  useEffect(() => {
+    if (!focused) return;
+    const version = versionOf(session?.messages ?? [], focused.messageId);
+    if (!version) return;
+    setVersionChoices((prev) =>
+      (prev[version.group] ?? version.count - 1) === version.index
+        ? prev
+        : { ...prev, [version.group]: version.index }
+    );
+    // Only on a new jump, so paging versions afterwards isn't undone
+  }, [focused]);
+  useEffect(() => {
+    if (!focused || flashedAt.current === focused.at) return;
+    const el = scrollRef.current?.querySelector<HTMLElement>(
+      `[data-message-id="${CSS.escape(focused.messageId)}"]`
+    );
+    if (!el) return;
+    flashedAt.current = focused.at;
+    el.scrollIntoView({ behavior: "smooth", block: "center", inline: "nearest" });
+    el.animate(
+      [
+        { boxShadow: `0 0 0 2px ${config?.accent ?? "#a78bfa"}` },
+        { boxShadow: "0 0 0 2px transparent" },
+      ],
+      { duration: 1800, easing: "ease-out" }
+    );
+  }, [focused, transcript, scrollRef, config?.accent]);
 
   if (!config || !session) return null;
 
+  const readOnly = !!config.readOnly;
+
   // Calculate context usage
-  const contextWindow = getContextWindow(session.usage?.model || config.model);
+  const contextWindow = contextWindowFor(models, session.usage?.model || config.model);
   const totalTokens = session.usage?.totalTokens || session.tokenCount || 0;
   const contextPercent = contextWindow > 0 ? (totalTokens / contextWindow) * 100 : 0;
 
+  const suggestions = completeCommand(input);
+
+  const compactNow = () => {
+    setCommandFeedback(null);
+    compactSession(agentId).catch((err) =>
+      setCommandFeedback(`Compaction failed: ${err instanceof Error ? err.message : String(err)}`)
+    );
+  };
+
   const handleSend = () => {
     const text = input.trim();
     if (!text) return;
     setInput("");
-    send(text);
+    setCommandFeedback(null);
+    if (text.startsWith("//")) {
+      send(text.slice(1));
+    } else if (text.startsWith("/")) {
+      void runCommand(text, { agentId, notify: setCommandFeedback });
+    } else {
+      send(text);
+    }
+  };
+
+  const insertSnippet = (text: string) => {
+    setInput((current) => (current.trim() ? `${current.replace(/\s+$/, "")}\n${text}` : text));
+    setShowSnippets(false);
+    inputRef.current?.focus();
+  };
+
+  const pickCommand = (command: SlashCommand) => {
+    setInput(`/${command.name}${command.args ? " " : ""}`);
+    setCommandIndex(0);
   };
 
   const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if ((e.metaKey || e.ctrlKey) && e.key === "j") {
+      e.preventDefault();
+      setShowSnippets((v) => !v);
+      return;
+    }
+    if (e.key === "Escape" && showSnippets) {
+      setShowSnippets(false);
+      return;
+    }
+    if (suggestions.length > 0) {
+      const active = suggestions[Math.min(commandIndex, suggestions.length - 1)];
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setCommandIndex(
+          (commandIndex + step + suggestions.length) % suggestions.length
+        );
+        return;
+      }
+      // Complete a partial name; a fully typed name runs on Enter
+      if (
+        (e.key === "Tab" || (e.key === "Enter" && !e.shiftKey)) &&
+        input !== `/${active.name}`
+      ) {
+        e.preventDefault();
+        pickCommand(active);
+        return;
+      }
+    }
+
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleSend();
@@ -259,6 +870,16 @@ export function AgentColumn({ agentId, columnIndex }: { agentId: string; columnI
     session.status === "thinking" ||
     session.status === "tool_use";
 
+  // Offer to compact before the gateway has to do it mid-run (usage figures
+  // lag behind a compaction until the next turn reports them)
+  const suggestCompaction =
+    !readOnly &&
+    !compactedSinceLastPrompt(session.messages) &&
+    gatewayConnected &&
+    !session.compacting &&
+    !compactionDismissed &&
+    contextPercent >= COMPACTION_SUGGEST_PERCENT;
+
   // Determine if agent has completed work ready to review
   const lastMessage = session.messages[session.messages.length - 1];
   const hasCompletedWork = 
@@ -270,6 +891,7 @@ export function AgentColumn({ agentId, columnIndex }: { agentId: string; columnI
   return (
     <div 
       className={styles.column} 
+      data-agent-id={agentId}
       data-status={session.status}
       data-has-completed-work={hasCompletedWork}
     >
@@ -283,24 +905,46 @@ export function AgentColumn({ agentId, columnIndex }: { agentId: string; columnI
             borderColor: `${config.accent}30`,
           }}
         >
-          {columnIndex + 1}
+          {config.icon || columnIndex + 1}
         </div>
         <div className={styles.headerInfo}>
           <div className={styles.headerRow}>
             <span className={styles.agentName}>{config.name}</span>
             <StatusBadge status={session.status} accent={config.accent} />
+            {!readOnly && <SessionPicker agentId={agentId} />}
           </div>
           <div className={styles.headerMeta}>
             {config.context ? <span>{config.context}</span> : null}
-            {config.model && (
-              <>
-                {config.context ? <span className={styles.metaDot}>·</span> : null}
-                <span style={{ color: config.accent, opacity: 0.5 }}>
-                  {config.model}
+            {config.context ? <span className={styles.metaDot}>·</span> : null}
+            <ModelSwitcher
+              agentId={agentId}
+              model={config.model}
+              accent={config.accent}
+            />
+            {readOnly ? (
+              <span className={styles.scratchBadge} title="Imported transcript">
+                read-only
+              </span>
+            ) : (
+              config.scratch && (
+                <span className={styles.scratchBadge} title="Local-only column">
+                  scratch
                 </span>
-              </>
+              )
+            )}
+            <PipelineBadge agentId={agentId} />
+            {config.forkedFrom && (
+              <span
+                className={styles.scratchBadge}
+                title={`Forked from ${config.forkedFrom.name} on ${new Date(
+                  config.forkedFrom.at
+                ).toLocaleString()}`}
+              >
+                ⑂ {config.forkedFrom.name}
+              </span>
             )}
             <FailoverBadge session={session} />
+            {!readOnly && <BudgetBadge agentId={agentId} />}
           </div>
           <div className={styles.headerUsage}>
             <span style={{ 
@@ -308,11 +952,34 @@ export function AgentColumn({ agentId, columnIndex }: { agentId: string; columnI
               color: contextPercent > 90 ? '#ef4444' : contextPercent > 80 ? '#f59e0b' : 'inherit' 
             }}>
               {totalTokens.toLocaleString()} tokens · {contextPercent.toFixed(1)}% of context
+              {session.usage?.costCents !== undefined &&
+                ` · ${formatCost(session.usage.costCents)}`}
             </span>
           </div>
         </div>
         <div className={styles.headerActions}>
-          <button className={styles.headerBtn} title="Settings">
+          {!readOnly && (
+            <button
+              className={styles.headerBtn}
+              title={session.compacting ? "Compacting…" : "Compact context now"}
+              onClick={compactNow}
+              disabled={!gatewayConnected || isActive || session.compacting}
+            >
+              {session.compacting ? "…" : "⇲"}
+            </button>
+          )}
+          <ExportMenu
+            agentIds={[agentId]}
+            name={config.name}
+            label="⤓"
+            className={styles.headerBtn}
+            align="right"
+          />
+          <button
+            className={styles.headerBtn}
+            title="Settings"
+            onClick={() => setShowSettings((v) => !v)}
+          >
             ⚙
           </button>
           <button
@@ -332,8 +999,18 @@ export function AgentColumn({ agentId, columnIndex }: { agentId: string; columnI
         </div>
       </div>
 
+      {showSettings && (
+        <AgentSettingsDrawer agent={config} onClose={() => setShowSettings(false)} />
+      )}
+
       {/* Messages */}
-      <div ref={scrollRef} className={styles.messages}>
+      <div ref={scrollRef} className={styles.messages} onScroll={onScroll}>
+        {session.history?.loading && (
+          <div className={styles.historyMarker}>loading older messages…</div>
+        )}
+        {session.history?.exhausted && session.messages.length > 0 && (
+          <div className={styles.historyMarker}>beginning of conversation</div>
+        )}
         {session.messages.length === 0 && (
           <div className={styles.emptyState}>
             <div
@@ -345,51 +1022,155 @@ export function AgentColumn({ agentId, columnIndex }: { agentId: string; columnI
             <p>Send a message to start a conversation with {config.name}</p>
           </div>
         )}
-        {session.messages.map((msg) =>
-          msg.role === "compaction" ? (
-            <CompactionDivider key={msg.id} message={msg} />
-          ) : msg.role === "announcement" ? (
-            <AnnouncementBubble key={msg.id} message={msg} />
-          ) : (
-            <MessageBubble key={msg.id} message={msg} accent={config.accent} />
-          )
-        )}
+        {transcript.map(({ message: msg, versions, lastTurn }, index) => (
+          <Fragment key={msg.id}>
+            {msg.role === "compaction" ? (
+              <CompactionDivider message={msg} />
+            ) : msg.role === "announcement" ? (
+              <AnnouncementBubble message={msg} />
+            ) : msg.role === "error" ? (
+              <ErrorBubble
+                agentId={agentId}
+                message={msg}
+                busy={isActive || readOnly}
+              />
+            ) : msg.toolUse ? (
+              <ToolCallBubble message={msg} />
+            ) : msg.pending ? (
+              <QueuedMessageBubble agentId={agentId} message={msg} />
+            ) : (
+              <MessageBubble
+                agentId={agentId}
+                message={msg}
+                accent={config.accent}
+                versions={versions}
+                editable={
+                  msg.role === "user" && gatewayConnected && !isActive && !readOnly
+                }
+                regenerable={
+                  msg.role === "assistant" &&
+                  lastTurn &&
+                  !msg.streaming &&
+                  gatewayConnected &&
+                  !isActive &&
+                  !readOnly
+                }
+                onSelectVersion={selectVersion}
+                onRerun={showNewestVersion}
+                onFork={forkHere}
+              />
+            )}
+            {msg.seeded && !transcript[index + 1]?.message.seeded && config.forkedFrom && (
+              <div className={styles.forkMarker}>
+                ⑂ forked from {config.forkedFrom.name} ·{" "}
+                {new Date(config.forkedFrom.at).toLocaleString()}
+              </div>
+            )}
+          </Fragment>
+        ))}
       </div>
 
       {/* Input */}
-      <div className={styles.inputArea}>
-        <div className={styles.inputWrapper}>
-          <textarea
-            value={input}
-            onChange={(e) => setInput(e.target.value)}
-            onKeyDown={handleKeyDown}
-            placeholder={`Message ${config.name}...`}
-            className={styles.input}
-            data-deck-input={columnIndex}
-            autoComplete="off"
-            autoCapitalize="off"
-            rows={4}
-          />
-          <button
-            className={styles.sendBtn}
-            onClick={handleSend}
-            disabled={!input.trim()}
-            style={
-              input.trim()
-                ? { backgroundColor: config.accent, color: "#000" }
-                : undefined
-            }
-          >
-            ↑
-          </button>
+      {readOnly ? (
+        <div className={styles.readOnlyNote}>
+          Imported transcript · fork from any message to continue it
         </div>
-        {isActive && (
-          <div
-            className={styles.streamingBar}
-            style={{ backgroundColor: config.accent }}
+      ) : (
+        <div className={styles.inputArea}>
+          <CommandMenu
+            commands={suggestions}
+            activeIndex={Math.min(commandIndex, suggestions.length - 1)}
+            onPick={pickCommand}
           />
-        )}
-      </div>
+          {showSnippets && (
+            <SnippetPicker
+              agentId={agentId}
+              onInsert={insertSnippet}
+              onClose={() => {
+                setShowSnippets(false);
+                inputRef.current?.focus();
+              }}
+            />
+          )}
+          {suggestCompaction && (
+            <div className={styles.compactionHint}>
+              <span>
+                Context {contextPercent.toFixed(0)}% full — compact now to summarize older
+                messages before the gateway has to.
+              </span>
+              <button onClick={compactNow} disabled={isActive}>
+                Compact now
+              </button>
+              <button onClick={() => setCompactionDismissed(true)} aria-label="Dismiss">
+                ×
+              </button>
+            </div>
+          )}
+          {commandFeedback && (
+            <div className={styles.commandFeedback}>
+              <pre>{commandFeedback}</pre>
+              <button onClick={() => setCommandFeedback(null)} aria-label="Dismiss">
+                ×
+              </button>
+            </div>
+          )}
+          <div className={styles.inputWrapper}>
+            <textarea
+              ref={inputRef}
+              value={input}
+              onChange={(e) => {
+                setInput(e.target.value);
+                setCommandIndex(0);
+              }}
+              onKeyDown={handleKeyDown}
+              placeholder={
+                gatewayConnected
+                  ? `Message ${config.name}... (/ for commands)`
+                  : `Message ${config.name} (queued until reconnect)...`
+              }
+              className={styles.input}
+              data-deck-input={columnIndex}
+              autoComplete="off"
+              autoCapitalize="off"
+              rows={4}
+            />
+            <button
+              className={styles.snippetBtn}
+              onClick={() => setShowSnippets((v) => !v)}
+              title="Insert a snippet (⌘/Ctrl+J)"
+            >
+              ❝
+            </button>
+            {isActive && (
+              <button
+                className={styles.stopBtn}
+                onClick={() => abortRun(agentId)}
+                title="Stop this run"
+              >
+                ■
+              </button>
+            )}
+            <button
+              className={styles.sendBtn}
+              onClick={handleSend}
+              disabled={!input.trim()}
+              style={
+                input.trim()
+                  ? { backgroundColor: config.accent, color: "#000" }
+                  : undefined
+              }
+            >
+              ↑
+            </button>
+          </div>
+          {isActive && (
+            <div
+              className={styles.streamingBar}
+              style={{ backgroundColor: config.accent }}
+            />
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,224 @@
+import { useState, type KeyboardEvent } from "react";
+import { useDeckStore } from "../lib/store";
+import { GatewayRequestError } from "../lib/gateway-client";
+import type { AgentConfig } from "../types";
+import { BudgetFields, budgetFromDraft, draftFromBudget } from "./BudgetFields";
+import styles from "./AgentSettingsDrawer.module.css";
+
+const ACCENTS = [
+  "#22d3ee", // cyan
+  "#a78bfa", // purple
+  "#34d399", // green
+  "#fb923c", // orange
+  "#f472b6", // pink
+  "#facc15", // yellow
+  "#60a5fa", // blue
+  "#ef4444", // red
+];
+
+type EditableField = "name" | "icon" | "accent" | "context" | "model" | "workspace" | "shell";
+
+const EDITABLE_FIELDS: EditableField[] = [
+  "name",
+  "icon",
+  "accent",
+  "context",
+  "model",
+  "workspace",
+  "shell",
+];
+
+/**
+ * Map a gateway validation error onto the form field it is about, if any.
+ * Understands `details.field`, `details.issues[].path`, and messages of the
+ * form "... at /model: must be string".
+ */
+function fieldErrorsFrom(err: unknown): Partial<Record<EditableField, string>> {
+  if (!(err instanceof GatewayRequestError)) return {};
+
+  const isField = (name: unknown): name is EditableField =>
+    typeof name === "string" && (EDITABLE_FIELDS as string[]).includes(name);
+
+  const details = err.details as
+    | {
+        field?: string;
+        issues?: Array<{ path?: string | string[]; message?: string }>;
+      }
+    | undefined;
+
+  const result: Partial<Record<EditableField, string>> = {};
+  if (isField(details?.field)) {
+    result[details.field] = err.message;
+  }
+  for (const issue of details?.issues ?? []) {
+    const path = Array.isArray(issue.path) ? issue.path[0] : issue.path?.replace(/^\//, "");
+    if (isField(path)) result[path] = issue.message ?? err.message;
+  }
+
+  const match = err.message.match(/at \/(\w+)/);
+  if (match && isField(match[1]) && !result[match[1]]) {
+    result[match[1]] = err.message;
+  }
+  return result;
+}
+
+export function AgentSettingsDrawer({
+  agent,
+  onClose,
+}: {
+  agent: AgentConfig;
+  onClose: () => void;
+}) {
+  const availableModels = useDeckStore((s) => s.availableModels);
+  const updateAgentConfig = useDeckStore((s) => s.updateAgentConfig);
+
+  const [draft, setDraft] = useState({
+    name: agent.name,
+    icon: agent.icon,
+    accent: agent.accent,
+    context: agent.context,
+    model: agent.model ?? "",
+    workspace: agent.workspace ?? "",
+    shell: agent.shell ?? "",
+  });
+  const [budgetDraft, setBudgetDraft] = useState(() => draftFromBudget(agent.budget));
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fieldErrors, setFieldErrors] = useState<Partial<Record<EditableField, string>>>({});
+
+  const models =
+    draft.model && !availableModels.some((m) => m.id === draft.model)
+      ? [...availableModels, { id: draft.model, name: draft.model }]
+      : availableModels;
+
+  const setField = (field: EditableField, value: string) => {
+    setDraft((d) => ({ ...d, [field]: value }));
+    setFieldErrors((e) => ({ ...e, [field]: undefined }));
+  };
+
+  // Only send what actually changed
+  const patch: Partial<Omit<AgentConfig, "id">> = {};
+  for (const field of EDITABLE_FIELDS) {
+    const next = draft[field].trim();
+    if (next !== (agent[field] ?? "")) patch[field] = next;
+  }
+  // Budgets are deck-only, so they never reach the gateway
+  const budget = budgetFromDraft(budgetDraft);
+  if (JSON.stringify(budget) !== JSON.stringify(agent.budget)) patch.budget = budget;
+  const dirty = Object.keys(patch).length > 0;
+  const canSave = dirty && draft.name.trim().length > 0 && !saving;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setSaving(true);
+    setError(null);
+    setFieldErrors({});
+    try {
+      await updateAgentConfig(agent.id, patch);
+      onClose();
+    } catch (err) {
+      const perField = fieldErrorsFrom(err);
+      setFieldErrors(perField);
+      if (Object.keys(perField).length === 0) {
+        setError(err instanceof Error ? err.message : "Failed to save settings");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === "Escape") onClose();
+    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) handleSave();
+  };
+
+  const renderInput = (field: EditableField, label: string, placeholder: string) => (
+    <div className={styles.field}>
+      <label className={styles.label}>{label}</label>
+      <input
+        className={`${styles.input} ${fieldErrors[field] ? styles.inputInvalid : ""}`}
+        value={draft[field]}
+        onChange={(e) => setField(field, e.target.value)}
+        placeholder={placeholder}
+      />
+      {fieldErrors[field] && <div className={styles.fieldError}>{fieldErrors[field]}</div>}
+    </div>
+  );
+
+  return (
+    <div className={styles.drawer} onKeyDown={handleKeyDown}>
+      <div className={styles.titleRow}>
+        <span className={styles.title}>Agent Settings</span>
+        <span className={styles.agentId}>{agent.id}</span>
+        <button className={styles.closeBtn} onClick={onClose} title="Close">
+          ×
+        </button>
+      </div>
+
+      <div className={styles.body}>
+        <div className={styles.row}>
+          {renderInput("name", "Name", "Research Agent")}
+          <div className={styles.fieldSmall}>
+            <label className={styles.label}>Icon</label>
+            <input
+              className={styles.input}
+              value={draft.icon}
+              onChange={(e) => setField("icon", e.target.value)}
+              style={{ textAlign: "center" }}
+            />
+          </div>
+        </div>
+
+        <div className={styles.field}>
+          <label className={styles.label}>Color</label>
+          <div className={styles.colors}>
+            {ACCENTS.map((c) => (
+              <div
+                key={c}
+                className={`${styles.colorSwatch} ${draft.accent === c ? styles.colorSwatchActive : ""}`}
+                style={{ backgroundColor: c }}
+                onClick={() => setField("accent", c)}
+              />
+            ))}
+          </div>
+        </div>
+
+        {renderInput("context", "Context", "Deep web research & synthesis")}
+
+        <div className={styles.field}>
+          <label className={styles.label}>Model</label>
+          <select
+            className={`${styles.select} ${fieldErrors.model ? styles.inputInvalid : ""}`}
+            value={draft.model}
+            onChange={(e) => setField("model", e.target.value)}
+          >
+            {!draft.model && <option value="">default model</option>}
+            {models.map((m) => (
+              <option key={m.id} value={m.id}>{m.name}</option>
+            ))}
+          </select>
+          {fieldErrors.model && <div className={styles.fieldError}>{fieldErrors.model}</div>}
+        </div>
+
+        {renderInput("workspace", "Workspace", "~/.openclaw/workspace-research")}
+        {renderInput("shell", "Shell", "default")}
+
+        <div className={styles.field}>
+          <label className={styles.label}>Budget</label>
+          <BudgetFields draft={budgetDraft} onChange={setBudgetDraft} />
+        </div>
+
+        {error && <div className={styles.error}>{error}</div>}
+      </div>
+
+      <div className={styles.actions}>
+        <button className={styles.cancelBtn} onClick={onClose} disabled={saving}>
+          Cancel
+        </button>
+        <button className={styles.saveBtn} onClick={handleSave} disabled={!canSave}>
+          {saving ? "Saving..." : "Save"}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,256 @@
+import { useMemo, useState, type KeyboardEvent } from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { useDeckStore } from "../lib/store";
+import {
+  collectBroadcasts,
+  columnsForTab,
+  type BroadcastResponseStatus,
+} from "../lib/broadcast";
+import styles from "./BroadcastPanel.module.css";
+
+type TargetMode = "all" | "selected" | "tab";
+
+const STATUS_LABELS: Record<BroadcastResponseStatus, string> = {
+  queued: "queued",
+  waiting: "waiting…",
+  running: "answering…",
+  done: "done",
+  error: "error",
+};
+
+export function BroadcastPanel({
+  activeTab,
+  tabs,
+  onClose,
+}: {
+  activeTab: string;
+  tabs: readonly string[];
+  onClose: () => void;
+}) {
+  const agents = useDeckStore((s) => s.config.agents);
+  const columnOrder = useDeckStore((s) => s.columnOrder);
+  const sessions = useDeckStore((s) => s.sessions);
+  const broadcastMessage = useDeckStore((s) => s.broadcastMessage);
+
+  const [view, setView] = useState<"compose" | "results">("compose");
+  const [text, setText] = useState("");
+  const [mode, setMode] = useState<TargetMode>("all");
+  const [tab, setTab] = useState(activeTab);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [broadcastId, setBroadcastId] = useState<string | null>(null);
+
+  const broadcasts = useMemo(
+    () => collectBroadcasts(columnOrder, sessions),
+    [columnOrder, sessions]
+  );
+  const shown =
+    broadcasts.find((b) => b.id === broadcastId) ?? broadcasts[0] ?? null;
+
+  // Imported transcripts can't receive prompts
+  const writable = columnOrder.filter(
+    (id) => !agents.find((a) => a.id === id)?.readOnly
+  );
+  const targets =
+    mode === "all"
+      ? writable
+      : mode === "selected"
+        ? writable.filter((id) => selected.includes(id))
+        : columnsForTab(tab, writable, sessions);
+
+  const nameOf = (id: string) => agents.find((a) => a.id === id)?.name ?? id;
+  const accentOf = (id: string) => agents.find((a) => a.id === id)?.accent;
+
+  const canSend = text.trim().length > 0 && targets.length > 0;
+
+  const handleSend = () => {
+    if (!canSend) return;
+    const id = broadcastMessage(text.trim(), targets);
+    setText("");
+    setBroadcastId(id);
+    setView("results");
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+      e.preventDefault();
+      handleSend();
+    }
+  };
+
+  const toggleSelected = (id: string) =>
+    setSelected((prev) =>
+      prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]
+    );
+
+  return (
+    <div
+      className={styles.overlay}
+      onClick={onClose}
+      onKeyDown={(e) => e.key === "Escape" && onClose()}
+    >
+      <div className={styles.panel} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <div className={styles.title}>Broadcast</div>
+          <div className={styles.views}>
+            <button
+              className={view === "compose" ? styles.viewActive : ""}
+              onClick={() => setView("compose")}
+            >
+              Compose
+            </button>
+            <button
+              className={view === "results" ? styles.viewActive : ""}
+              onClick={() => setView("results")}
+              disabled={broadcasts.length === 0}
+            >
+              Results{broadcasts.length > 0 && ` (${broadcasts.length})`}
+            </button>
+          </div>
+          <button className={styles.closeBtn} onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        {view === "compose" ? (
+          <div className={styles.body}>
+            <textarea
+              className={styles.composer}
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              onKeyDown={handleKeyDown}
+              placeholder="Prompt to send to every target column… (⌘/Ctrl+Enter to send)"
+              rows={5}
+              autoFocus
+            />
+
+            <div className={styles.targetModes}>
+              <label>
+                <input
+                  type="radio"
+                  checked={mode === "all"}
+                  onChange={() => setMode("all")}
+                />
+                All columns
+              </label>
+              <label>
+                <input
+                  type="radio"
+                  checked={mode === "selected"}
+                  onChange={() => setMode("selected")}
+                />
+                Selected
+              </label>
+              <label>
+                <input
+                  type="radio"
+                  checked={mode === "tab"}
+                  onChange={() => setMode("tab")}
+                />
+                Tab
+                <select
+                  className={styles.tabSelect}
+                  value={tab}
+                  onChange={(e) => {
+                    setTab(e.target.value);
+                    setMode("tab");
+                  }}
+                >
+                  {tabs.map((t) => (
+                    <option key={t} value={t}>
+                      {t}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div className={styles.targets}>
+              {writable.map((id) => (
+                <label
+                  key={id}
+                  className={`${styles.target} ${
+                    targets.includes(id) ? styles.targetOn : ""
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    checked={targets.includes(id)}
+                    disabled={mode !== "selected"}
+                    onChange={() => toggleSelected(id)}
+                  />
+                  <span style={{ color: accentOf(id) }}>●</span>
+                  {nameOf(id)}
+                </label>
+              ))}
+            </div>
+
+            <div className={styles.actions}>
+              <span className={styles.hint}>
+                {targets.length} {targets.length === 1 ? "column" : "columns"}
+              </span>
+              <button
+                className={styles.sendBtn}
+                disabled={!canSend}
+                onClick={handleSend}
+              >
+                Send to {targets.length}
+              </button>
+            </div>
+          </div>
+        ) : shown ? (
+          <div className={styles.body}>
+            <div className={styles.resultsHeader}>
+              <select
+                className={styles.tabSelect}
+                value={shown.id}
+                onChange={(e) => setBroadcastId(e.target.value)}
+              >
+                {broadcasts.map((b) => (
+                  <option key={b.id} value={b.id}>
+                    {new Date(b.sentAt).toLocaleTimeString()} ·{" "}
+                    {b.text.slice(0, 60)}
+                  </option>
+                ))}
+              </select>
+              <span className={styles.hint}>
+                {shown.responses.filter((r) => r.status === "done").length}/
+                {shown.responses.length} answered
+              </span>
+            </div>
+            <div className={styles.prompt}>{shown.text}</div>
+            <div className={styles.results}>
+              {shown.responses.map((r) => (
+                <div
+                  key={r.agentId}
+                  className={styles.result}
+                  style={{ borderTopColor: accentOf(r.agentId) }}
+                >
+                  <div className={styles.resultHeader}>
+                    <span>{nameOf(r.agentId)}</span>
+                    <span
+                      className={`${styles.resultStatus} ${
+                        r.status === "error" ? styles.resultError : ""
+                      }`}
+                    >
+                      {STATUS_LABELS[r.status]}
+                    </span>
+                  </div>
+                  <div className={styles.resultText}>
+                    {r.status === "error" && !r.text ? (
+                      <span className={styles.resultError}>{r.error}</span>
+                    ) : (
+                      <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                        {r.text}
+                      </ReactMarkdown>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
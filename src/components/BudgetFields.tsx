@@ -0,0 +1,83 @@
+import type { Budget, BudgetLimit } from "../types";
+import styles from "./BudgetFields.module.css";
+
+/** Budget form state; empty strings mean "no limit" */
+export interface BudgetDraft {
+  period: Budget["period"];
+  softTokens: string;
+  softCost: string;
+  hardTokens: string;
+  hardCost: string;
+}
+
+export function draftFromBudget(budget: Budget | null | undefined): BudgetDraft {
+  const tokens = (n?: number) => (n === undefined ? "" : String(n));
+  const dollars = (cents?: number) => (cents === undefined ? "" : String(cents / 100));
+  return {
+    period: budget?.period ?? "day",
+    softTokens: tokens(budget?.soft?.tokens),
+    softCost: dollars(budget?.soft?.costCents),
+    hardTokens: tokens(budget?.hard?.tokens),
+    hardCost: dollars(budget?.hard?.costCents),
+  };
+}
+
+/** The budget a draft describes, or undefined when it sets no limits */
+export function budgetFromDraft(draft: BudgetDraft): Budget | undefined {
+  const number = (text: string) => {
+    const value = Number(text.trim());
+    return text.trim() && Number.isFinite(value) && value >= 0 ? value : undefined;
+  };
+  const limit = (tokensText: string, costText: string): BudgetLimit | undefined => {
+    const tokens = number(tokensText);
+    const dollars = number(costText);
+    if (tokens === undefined && dollars === undefined) return undefined;
+    return {
+      ...(tokens !== undefined ? { tokens: Math.round(tokens) } : {}),
+      ...(dollars !== undefined ? { costCents: Math.round(dollars * 100) } : {}),
+    };
+  };
+  const soft = limit(draft.softTokens, draft.softCost);
+  const hard = limit(draft.hardTokens, draft.hardCost);
+  if (!soft && !hard) return undefined;
+  return { period: draft.period, ...(soft ? { soft } : {}), ...(hard ? { hard } : {}) };
+}
+
+export function BudgetFields({
+  draft,
+  onChange,
+}: {
+  draft: BudgetDraft;
+  onChange: (draft: BudgetDraft) => void;
+}) {
+  const input = (field: Exclude<keyof BudgetDraft, "period">, placeholder: string) => (
+    <input
+      className={styles.input}
+      value={draft[field]}
+      onChange={(e) => onChange({ ...draft, [field]: e.target.value })}
+      placeholder={placeholder}
+      inputMode="decimal"
+    />
+  );
+
+  return (
+    <div className={styles.grid}>
+      <span className={styles.label}>Per</span>
+      <select
+        className={styles.input}
+        value={draft.period}
+        onChange={(e) => onChange({ ...draft, period: e.target.value as Budget["period"] })}
+      >
+        <option value="day">day</option>
+        <option value="month">month</option>
+      </select>
+      <span />
+      <span className={styles.label}>Warn at</span>
+      {input("softTokens", "tokens")}
+      {input("softCost", "$")}
+      <span className={styles.label}>Stop at</span>
+      {input("hardTokens", "tokens")}
+      {input("hardCost", "$")}
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+import { commandUsage, type SlashCommand } from "../lib/commands";
+import styles from "./CommandMenu.module.css";
+
+/** Slash-command autocomplete shown above a column's composer */
+export function CommandMenu({
+  commands,
+  activeIndex,
+  onPick,
+}: {
+  commands: SlashCommand[];
+  activeIndex: number;
+  onPick: (command: SlashCommand) => void;
+}) {
+  if (commands.length === 0) return null;
+
+  return (
+    <div className={styles.menu} role="listbox">
+      {commands.map((command, i) => (
+        <button
+          key={command.name}
+          className={`${styles.item} ${i === activeIndex ? styles.itemActive : ""}`}
+          role="option"
+          aria-selected={i === activeIndex}
+          // Keep focus in the textarea
+          onMouseDown={(e) => e.preventDefault()}
+          onClick={() => onPick(command)}
+        >
+          <span className={styles.usage}>{commandUsage(command)}</span>
+          <span className={styles.description}>{command.description}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,133 @@
+import { useEffect, useRef, useState, type ReactNode } from "react";
+import { useDeckStore } from "../lib/store";
+import {
+  downloadTranscript,
+  exportedColumn,
+  parseTranscriptJson,
+  type ExportFormat,
+} from "../lib/export";
+import styles from "./ExportMenu.module.css";
+
+const FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: "markdown", label: "Markdown" },
+  { format: "json", label: "JSON" },
+  { format: "html", label: "HTML page" },
+];
+
+/**
+ * Download menu for one column or the whole deck. With `allowImport` it also
+ * offers to load a JSON export back as read-only columns.
+ */
+export function ExportMenu({
+  agentIds,
+  name,
+  label,
+  className,
+  align = "left",
+  allowImport = false,
+}: {
+  agentIds: string[];
+  /** Used for the file name */
+  name: string;
+  label: ReactNode;
+  className: string;
+  align?: "left" | "right";
+  allowImport?: boolean;
+}) {
+  const importTranscript = useDeckStore((s) => s.importTranscript);
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handleClick = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [open]);
+
+  const download = (format: ExportFormat) => {
+    const { config, sessions } = useDeckStore.getState();
+    const columns = agentIds.flatMap((id) => {
+      const agent = config.agents.find((a) => a.id === id);
+      const session = sessions[id];
+      return agent && session ? [exportedColumn(agent, session)] : [];
+    });
+    downloadTranscript(columns, format, name);
+    setOpen(false);
+  };
+
+  const handleImport = async (file: File) => {
+    setError(null);
+    setNotice(null);
+    try {
+      const { columns, skipped } = parseTranscriptJson(await file.text());
+      if (columns.length === 0) throw new Error("The export has no columns");
+      columns.forEach((column) => importTranscript(column));
+      if (skipped > 0) {
+        // Stay open so the partial import isn't missed
+        setNotice(
+          `Imported ${columns.length} ${columns.length === 1 ? "column" : "columns"}; ` +
+            `skipped ${skipped} malformed ${skipped === 1 ? "message" : "messages"}`
+        );
+      } else {
+        setOpen(false);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid transcript file");
+    }
+  };
+
+  return (
+    <div className={styles.root} ref={rootRef}>
+      <button
+        className={className}
+        onClick={() => {
+          setOpen((v) => !v);
+          setError(null);
+          setNotice(null);
+        }}
+        title="Export transcript"
+      >
+        {label}
+      </button>
+
+      {open && (
+        <div className={`${styles.menu} ${align === "right" ? styles.menuRight : ""}`}>
+          {FORMATS.map(({ format, label }) => (
+            <button key={format} className={styles.item} onClick={() => download(format)}>
+              {label}
+            </button>
+          ))}
+          {allowImport && (
+            <>
+              <button
+                className={`${styles.item} ${styles.import}`}
+                onClick={() => fileRef.current?.click()}
+              >
+                Import JSON…
+              </button>
+              <input
+                ref={fileRef}
+                type="file"
+                accept="application/json,.json"
+                hidden
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) void handleImport(file);
+                  e.target.value = "";
+                }}
+              />
+            </>
+          )}
+          {error && <div className={styles.error}>{error}</div>}
+          {notice && <div className={styles.notice}>{notice}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState } from "react";
+import { useDeckStore } from "../lib/store";
+import { newLink, newPipeline } from "../lib/pipelines";
+import type { Pipeline, PipelineCondition, PipelineLink } from "../types";
+import styles from "./PipelineEditor.module.css";
+
+const CONDITION_LABELS: Record<PipelineCondition["kind"], string> = {
+  always: "always",
+  contains: "answer contains",
+  notContains: "answer doesn't contain",
+  matches: "answer matches regex",
+};
+
+function conditionOf(kind: PipelineCondition["kind"], value: string): PipelineCondition {
+  switch (kind) {
+    case "always":
+      return { kind };
+    case "matches":
+      return { kind, pattern: value };
+    default:
+      return { kind, text: value };
+  }
+}
+
+function conditionValue(condition: PipelineCondition): string {
+  return condition.kind === "matches"
+    ? condition.pattern
+    : condition.kind === "always"
+      ? ""
+      : condition.text;
+}
+
+export function PipelineEditor({ onClose }: { onClose: () => void }) {
+  const pipelines = useDeckStore((s) => s.pipelines);
+  const agents = useDeckStore((s) => s.config.agents);
+  const savePipeline = useDeckStore((s) => s.savePipeline);
+  const deletePipeline = useDeckStore((s) => s.deletePipeline);
+  const [selectedId, setSelectedId] = useState<string | null>(
+    pipelines[0]?.id ?? null
+  );
+
+  const pipeline = pipelines.find((p) => p.id === selectedId) ?? null;
+
+  const update = (patch: Partial<Pipeline>) => {
+    if (pipeline) savePipeline({ ...pipeline, ...patch });
+  };
+
+  const updateLink = (linkId: string, patch: Partial<PipelineLink>) => {
+    if (!pipeline) return;
+    update({
+      links: pipeline.links.map((l) => (l.id === linkId ? { ...l, ...patch } : l)),
+    });
+  };
+
+  const addPipeline = () => {
+    const created = newPipeline(`Pipeline ${pipelines.length + 1}`);
+    savePipeline(created);
+    setSelectedId(created.id);
+  };
+
+  const addLink = () => {
+    if (!pipeline || agents.length === 0) return;
+    // Continue the chain from where it ends
+    const last = pipeline.links[pipeline.links.length - 1];
+    const from = last?.toAgentId ?? agents[0].id;
+    const to = agents.find((a) => a.id !== from)?.id ?? from;
+    update({ links: [...pipeline.links, newLink(from, to)] });
+  };
+
+  const agentOptions = (value: string) => (
+    <>
+      {!agents.some((a) => a.id === value) && (
+        <option value={value}>{value} (missing)</option>
+      )}
+      {agents.map((a) => (
+        <option key={a.id} value={a.id}>
+          {a.name}
+        </option>
+      ))}
+    </>
+  );
+
+  return (
+    <div
+      className={styles.overlay}
+      onClick={onClose}
+      onKeyDown={(e) => e.key === "Escape" && onClose()}
+    >
+      <div className={styles.panel} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <div className={styles.title}>Pipelines</div>
+          <button className={styles.closeBtn} onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        <div className={styles.content}>
+          <div className={styles.sidebar}>
+            {pipelines.map((p) => (
+              <button
+                key={p.id}
+                className={`${styles.pipelineItem} ${
+                  p.id === selectedId ? styles.pipelineItemActive : ""
+                }`}
+                onClick={() => setSelectedId(p.id)}
+              >
+                <span className={p.enabled ? styles.dotOn : styles.dotOff}>●</span>
+                {p.name}
+              </button>
+            ))}
+            <button className={styles.addBtn} onClick={addPipeline}>
+              + New pipeline
+            </button>
+          </div>
+
+          {pipeline ? (
+            <div className={styles.editor}>
+              <div className={styles.row}>
+                <input
+                  className={styles.input}
+                  value={pipeline.name}
+                  onChange={(e) => update({ name: e.target.value })}
+                  aria-label="Pipeline name"
+                />
+                <label className={styles.inline}>
+                  Max hops
+                  <input
+                    className={`${styles.input} ${styles.number}`}
+                    type="number"
+                    min={1}
+                    max={50}
+                    value={pipeline.maxHops}
+                    onChange={(e) =>
+                      update({ maxHops: Math.max(1, Number(e.target.value) || 1) })
+                    }
+                  />
+                </label>
+                <label className={styles.inline}>
+                  <input
+                    type="checkbox"
+                    checked={pipeline.enabled}
+                    onChange={(e) => update({ enabled: e.target.checked })}
+                  />
+                  Enabled
+                </label>
+              </div>
+
+              {pipeline.links.length === 0 && (
+                <div className={styles.empty}>
+                  Add a link to forward one column's answers to another.
+                </div>
+              )}
+
+              {pipeline.links.map((link) => (
+                <div key={link.id} className={styles.link}>
+                  <div className={styles.row}>
+                    <select
+                      className={styles.select}
+                      value={link.fromAgentId}
+                      onChange={(e) => updateLink(link.id, { fromAgentId: e.target.value })}
+                    >
+                      {agentOptions(link.fromAgentId)}
+                    </select>
+                    <span className={styles.arrow}>→</span>
+                    <select
+                      className={styles.select}
+                      value={link.toAgentId}
+                      onChange={(e) => updateLink(link.id, { toAgentId: e.target.value })}
+                    >
+                      {agentOptions(link.toAgentId)}
+                    </select>
+                    <button
+                      className={styles.removeBtn}
+                      onClick={() =>
+                        update({ links: pipeline.links.filter((l) => l.id !== link.id) })
+                      }
+                      aria-label="Remove link"
+                    >
+                      ×
+                    </button>
+                  </div>
+                  <div className={styles.row}>
+                    <span className={styles.label}>Forward when</span>
+                    <select
+                      className={styles.select}
+                      value={link.condition.kind}
+                      onChange={(e) =>
+                        updateLink(link.id, {
+                          condition: conditionOf(
+                            e.target.value as PipelineCondition["kind"],
+                            conditionValue(link.condition)
+                          ),
+                        })
+                      }
+                    >
+                      {Object.entries(CONDITION_LABELS).map(([kind, label]) => (
+                        <option key={kind} value={kind}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                    {link.condition.kind !== "always" && (
+                      <input
+                        className={styles.input}
+                        value={conditionValue(link.condition)}
+                        onChange={(e) =>
+                          updateLink(link.id, {
+                            condition: conditionOf(link.condition.kind, e.target.value),
+                          })
+                        }
+                        placeholder={link.condition.kind === "matches" ? "^APPROVED" : "text"}
+                      />
+                    )}
+                  </div>
+                  <textarea
+                    className={styles.template}
+                    value={link.template}
+                    onChange={(e) => updateLink(link.id, { template: e.target.value })}
+                    rows={3}
+                  />
+                </div>
+              ))}
+
+              <div className={styles.footer}>
+                <span className={styles.hint}>
+                  Variables: {"{{answer}} {{prompt}} {{from.name}} {{to.name}} {{hop}}"}
+                </span>
+                <div className={styles.footerActions}>
+                  <button className={styles.addBtn} onClick={addLink}>
+                    + Link
+                  </button>
+                  <button
+                    className={styles.deleteBtn}
+                    onClick={() => {
+                      deletePipeline(pipeline.id);
+                      setSelectedId(pipelines.find((p) => p.id !== pipeline.id)?.id ?? null);
+                    }}
+                  >
+                    Delete pipeline
+                  </button>
+                </div>
+              </div>
+            </div>
+          ) : (
+            <div className={styles.empty}>
+              Pipelines chain columns together, e.g. Research → Writer → Reviewer.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+import { useDeferredValue, useMemo, useState } from "react";
+import { useDeckStore } from "../lib/store";
+import { searchMessages, MAX_SEARCH_RESULTS, type SearchResult } from "../lib/search";
+import type { ChatMessage } from "../types";
+import styles from "./SearchPanel.module.css";
+
+const ROLES: Array<[ChatMessage["role"], string]> = [
+  ["user", "You"],
+  ["assistant", "Assistant"],
+  ["tool", "Tool"],
+  ["announcement", "Sub-agent"],
+  ["error", "Error"],
+  ["compaction", "Compaction"],
+];
+
+const ROLE_LABELS = Object.fromEntries(ROLES) as Partial<Record<ChatMessage["role"], string>>;
+
+function toggle<T>(list: T[], item: T): T[] {
+  return list.includes(item) ? list.filter((x) => x !== item) : [...list, item];
+}
+
+export function SearchPanel({ onClose }: { onClose: () => void }) {
+  const sessions = useDeckStore((s) => s.sessions);
+  const columnOrder = useDeckStore((s) => s.columnOrder);
+  const agents = useDeckStore((s) => s.config.agents);
+  const focusMessage = useDeckStore((s) => s.focusMessage);
+  const [query, setQuery] = useState("");
+  const [agentIds, setAgentIds] = useState<string[]>([]);
+  const [roles, setRoles] = useState<ChatMessage["role"][]>([]);
+  const [from, setFrom] = useState("");
+  const [to, setTo] = useState("");
+
+  // Typing stays responsive while long transcripts are searched
+  const deferredQuery = useDeferredValue(query);
+  const results = useMemo(
+    () =>
+      searchMessages(sessions, columnOrder, deferredQuery, {
+        agentIds,
+        roles,
+        from: from || undefined,
+        to: to || undefined,
+      }),
+    [sessions, columnOrder, deferredQuery, agentIds, roles, from, to]
+  );
+
+  const agentOf = (id: string) => agents.find((a) => a.id === id);
+
+  const open = (result: SearchResult) => {
+    focusMessage(result.agentId, result.message.id);
+    onClose();
+  };
+
+  return (
+    <div
+      className={styles.overlay}
+      onClick={onClose}
+      onKeyDown={(e) => e.key === "Escape" && onClose()}
+    >
+      <div className={styles.panel} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <input
+            className={styles.query}
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && results.length > 0) open(results[0]);
+            }}
+            placeholder='Search all transcripts… ("quoted phrase" for exact matches)'
+            autoFocus
+          />
+          <button className={styles.closeBtn} onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        <div className={styles.filters}>
+          <div className={styles.filterRow}>
+            {columnOrder.map((id) => (
+              <label
+                key={id}
+                className={`${styles.chip} ${agentIds.includes(id) ? styles.chipOn : ""}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={agentIds.includes(id)}
+                  onChange={() => setAgentIds((prev) => toggle(prev, id))}
+                />
+                <span style={{ color: agentOf(id)?.accent }}>●</span>
+                {agentOf(id)?.name ?? id}
+              </label>
+            ))}
+          </div>
+          <div className={styles.filterRow}>
+            {ROLES.map(([role, label]) => (
+              <label
+                key={role}
+                className={`${styles.chip} ${roles.includes(role) ? styles.chipOn : ""}`}
+              >
+                <input
+                  type="checkbox"
+                  checked={roles.includes(role)}
+                  onChange={() => setRoles((prev) => toggle(prev, role))}
+                />
+                {label}
+              </label>
+            ))}
+            <span className={styles.dates}>
+              <input
+                type="date"
+                className={styles.dateInput}
+                value={from}
+                max={to || undefined}
+                onChange={(e) => setFrom(e.target.value)}
+                aria-label="From"
+              />
+              –
+              <input
+                type="date"
+                className={styles.dateInput}
+                value={to}
+                min={from || undefined}
+                onChange={(e) => setTo(e.target.value)}
+                aria-label="To"
+              />
+            </span>
+          </div>
+        </div>
+
+        <div className={styles.results}>
+          {!deferredQuery.trim() && (
+            <div className={styles.hint}>
+              Searches every loaded message, including gateway history and imported
+              transcripts. Leave a filter empty to include everything.
+            </div>
+          )}
+          {deferredQuery.trim() && results.length === 0 && (
+            <div className={styles.hint}>No matching messages</div>
+          )}
+          {results.map((result) => {
+            const agent = agentOf(result.agentId);
+            return (
+              <button
+                key={`${result.agentId}:${result.message.id}`}
+                className={styles.result}
+                onClick={() => open(result)}
+              >
+                <div className={styles.resultMeta}>
+                  <span style={{ color: agent?.accent }}>●</span>
+                  <span className={styles.resultAgent}>{agent?.name ?? result.agentId}</span>
+                  <span>{ROLE_LABELS[result.message.role] ?? result.message.role}</span>
+                  <span className={styles.resultTime}>
+                    {new Date(result.message.timestamp).toLocaleString([], {
+                      dateStyle: "medium",
+                      timeStyle: "short",
+                    })}
+                  </span>
+                </div>
+                <div className={styles.snippet}>
+                  {result.snippet.map((part, i) =>
+                    part.hit ? <mark key={i}>{part.text}</mark> : <span key={i}>{part.text}</span>
+                  )}
+                </div>
+              </button>
+            );
+          })}
+          {results.length === MAX_SEARCH_RESULTS && (
+            <div className={styles.hint}>
+              Showing the newest {MAX_SEARCH_RESULTS} matches; narrow the search to see more.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useEffect, useRef, useState } from "react";
+import { useDeckStore } from "../lib/store";
+import { parseSessionKey } from "../lib/session-keys";
+import type { GatewaySessionInfo } from "../types";
+import styles from "./SessionPicker.module.css";
+
+function sessionLabel(sessionKey: string): string {
+  return parseSessionKey(sessionKey)?.rest ?? sessionKey;
+}
+
+function formatUpdated(ts?: number): string {
+  if (!ts) return "";
+  const d = new Date(ts);
+  const sameDay = d.toDateString() === new Date().toDateString();
+  return sameDay
+    ? d.toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit", hour12: false })
+    : d.toLocaleDateString("en-US", { month: "short", day: "numeric" });
+}
+
+export function SessionPicker({ agentId }: { agentId: string }) {
+  const sessionKey = useDeckStore((s) => s.sessions[agentId]?.sessionKey);
+  const listColumnSessions = useDeckStore((s) => s.listColumnSessions);
+  const switchSession = useDeckStore((s) => s.switchSession);
+  const startNewSession = useDeckStore((s) => s.startNewSession);
+  const [open, setOpen] = useState(false);
+  const [sessions, setSessions] = useState<GatewaySessionInfo[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const rootRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    let cancelled = false;
+    setSessions(null);
+    setError(null);
+    listColumnSessions(agentId)
+      .then((list) => !cancelled && setSessions(list))
+      .catch((err) => {
+        if (cancelled) return;
+        setError(err instanceof Error ? err.message : "Failed to load sessions");
+        setSessions([]);
+      });
+
+    const handleClick = (e: MouseEvent) => {
+      if (!rootRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => {
+      cancelled = true;
+      document.removeEventListener("mousedown", handleClick);
+    };
+  }, [open, agentId, listColumnSessions]);
+
+  if (!sessionKey) return null;
+
+  const choose = (key: string) => {
+    switchSession(agentId, key);
+    setOpen(false);
+  };
+
+  return (
+    <div className={styles.root} ref={rootRef}>
+      <button
+        className={styles.trigger}
+        onClick={() => setOpen((v) => !v)}
+        title={sessionKey}
+      >
+        {sessionLabel(sessionKey)} ▾
+      </button>
+
+      {open && (
+        <div className={styles.menu}>
+          <button
+            className={styles.newSession}
+            onClick={() => {
+              startNewSession(agentId);
+              setOpen(false);
+            }}
+          >
+            + New session
+          </button>
+          {sessions === null && <div className={styles.hint}>Loading…</div>}
+          {error && <div className={styles.error}>{error}</div>}
+          {sessions?.length === 0 && !error && (
+            <div className={styles.hint}>No other sessions</div>
+          )}
+          {sessions?.map((s) => (
+            <button
+              key={s.key}
+              className={`${styles.item} ${s.key === sessionKey ? styles.itemActive : ""}`}
+              onClick={() => choose(s.key)}
+              title={s.key}
+            >
+              <span className={styles.itemLabel}>
+                {s.label || s.displayName || sessionLabel(s.key)}
+              </span>
+              <span className={styles.itemMeta}>
+                {s.totalTokens ? `${s.totalTokens.toLocaleString()} tok · ` : ""}
+                {formatUpdated(s.updatedAt)}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
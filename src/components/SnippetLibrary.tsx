@@ -0,0 +1,144 @@
+import { useRef, useState } from "react";
+import { useDeckStore } from "../lib/store";
+import { makeId } from "../lib/ids";
+import { BUILTIN_VARIABLES, exportSnippets, parseSnippets } from "../lib/snippets";
+import { templateVariables } from "../lib/templates";
+import { downloadFile } from "../lib/export";
+import styles from "./SnippetLibrary.module.css";
+
+export function SnippetLibrary({ onClose }: { onClose: () => void }) {
+  const snippets = useDeckStore((s) => s.snippets);
+  const saveSnippet = useDeckStore((s) => s.saveSnippet);
+  const deleteSnippet = useDeckStore((s) => s.deleteSnippet);
+  const importSnippets = useDeckStore((s) => s.importSnippets);
+  const [selectedId, setSelectedId] = useState<string | null>(snippets[0]?.id ?? null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const snippet = snippets.find((s) => s.id === selectedId) ?? null;
+  const variables = snippet ? templateVariables(snippet.body) : [];
+
+  const update = (patch: { name?: string; body?: string }) => {
+    if (snippet) saveSnippet({ ...snippet, ...patch, updatedAt: Date.now() });
+  };
+
+  const addSnippet = () => {
+    const created = {
+      id: makeId(),
+      name: `Snippet ${snippets.length + 1}`,
+      body: "",
+      updatedAt: Date.now(),
+    };
+    saveSnippet(created);
+    setSelectedId(created.id);
+  };
+
+  const handleImport = async (file: File) => {
+    setImportError(null);
+    try {
+      const imported = parseSnippets(JSON.parse(await file.text()));
+      importSnippets(imported);
+      if (imported[0]) setSelectedId(imported[0].id);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : "Invalid snippet file");
+    }
+  };
+
+  return (
+    <div
+      className={styles.overlay}
+      onClick={onClose}
+      onKeyDown={(e) => e.key === "Escape" && onClose()}
+    >
+      <div className={styles.panel} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <div className={styles.title}>Snippets</div>
+          <button className={styles.headerBtn} onClick={() => fileRef.current?.click()}>
+            Import
+          </button>
+          <button
+            className={styles.headerBtn}
+            onClick={() =>
+              downloadFile("deck-snippets.json", exportSnippets(snippets), "application/json")
+            }
+            disabled={snippets.length === 0}
+          >
+            Export
+          </button>
+          <input
+            ref={fileRef}
+            type="file"
+            accept="application/json,.json"
+            hidden
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) void handleImport(file);
+              e.target.value = "";
+            }}
+          />
+          <button className={styles.closeBtn} onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+        {importError && <div className={styles.error}>{importError}</div>}
+
+        <div className={styles.content}>
+          <div className={styles.sidebar}>
+            {snippets.map((s) => (
+              <button
+                key={s.id}
+                className={`${styles.item} ${s.id === selectedId ? styles.itemActive : ""}`}
+                onClick={() => setSelectedId(s.id)}
+              >
+                {s.name}
+              </button>
+            ))}
+            <button className={styles.addBtn} onClick={addSnippet}>
+              + New snippet
+            </button>
+          </div>
+
+          {snippet ? (
+            <div className={styles.editor}>
+              <input
+                className={styles.input}
+                value={snippet.name}
+                onChange={(e) => update({ name: e.target.value })}
+                aria-label="Snippet name"
+              />
+              <textarea
+                className={styles.body}
+                value={snippet.body}
+                onChange={(e) => update({ body: e.target.value })}
+                placeholder="Review {{file}} for {{concern}}. Previous answer: {{lastAnswer}}"
+                rows={12}
+              />
+              <div className={styles.footer}>
+                <span className={styles.hint}>
+                  {variables.length > 0
+                    ? `Variables: ${variables
+                        .map((v) => (BUILTIN_VARIABLES.includes(v) ? `${v} (auto)` : v))
+                        .join(", ")}`
+                    : `Built-ins: ${BUILTIN_VARIABLES.map((v) => `{{${v}}}`).join(" ")}`}
+                </span>
+                <button
+                  className={styles.deleteBtn}
+                  onClick={() => {
+                    deleteSnippet(snippet.id);
+                    setSelectedId(snippets.find((s) => s.id !== snippet.id)?.id ?? null);
+                  }}
+                >
+                  Delete
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className={styles.empty}>
+              Save prompts you reuse; insert them in any column with ❝ or ⌘/Ctrl+J.
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
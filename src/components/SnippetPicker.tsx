@@ -0,0 +1,146 @@
+import { useMemo, useState, type KeyboardEvent } from "react";
+import { useDeckStore } from "../lib/store";
+import { BUILTIN_VARIABLES, builtinValues } from "../lib/snippets";
+import { renderTemplate, templateVariables } from "../lib/templates";
+import type { Snippet } from "../types";
+import styles from "./SnippetPicker.module.css";
+
+/**
+ * Snippet picker shown above a column's composer. Picking a snippet asks for
+ * its variables (if any) and hands the filled-in text back to the composer.
+ */
+export function SnippetPicker({
+  agentId,
+  onInsert,
+  onClose,
+}: {
+  agentId: string;
+  onInsert: (text: string) => void;
+  onClose: () => void;
+}) {
+  const snippets = useDeckStore((s) => s.snippets);
+  const [query, setQuery] = useState("");
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [picked, setPicked] = useState<Snippet | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const matches = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return snippets.filter(
+      (s) => !q || s.name.toLowerCase().includes(q) || s.body.toLowerCase().includes(q)
+    );
+  }, [snippets, query]);
+
+  const userVariables = picked
+    ? templateVariables(picked.body).filter((v) => !BUILTIN_VARIABLES.includes(v))
+    : [];
+  // Inserting with a blank would leave a literal {{name}} in the prompt
+  const unfilled = userVariables.some((name) => !values[name]?.trim());
+
+  const insert = (snippet: Snippet, filled: Record<string, string>) => {
+    const { config, sessions } = useDeckStore.getState();
+    const builtins = builtinValues(
+      config.agents.find((a) => a.id === agentId),
+      sessions[agentId]
+    );
+    onInsert(renderTemplate(snippet.body, { ...builtins, ...filled }));
+  };
+
+  const pick = (snippet: Snippet) => {
+    const vars = templateVariables(snippet.body).filter(
+      (v) => !BUILTIN_VARIABLES.includes(v)
+    );
+    if (vars.length === 0) {
+      insert(snippet, {});
+    } else {
+      setPicked(snippet);
+      setValues({});
+    }
+  };
+
+  const handleSearchKey = (e: KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((i) => (i + step + matches.length) % Math.max(matches.length, 1));
+    } else if (e.key === "Enter") {
+      e.preventDefault();
+      const snippet = matches[Math.min(activeIndex, matches.length - 1)];
+      if (snippet) pick(snippet);
+    } else if (e.key === "Escape") {
+      onClose();
+    }
+  };
+
+  return (
+    <div className={styles.picker}>
+      {picked ? (
+        <form
+          className={styles.form}
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!unfilled) insert(picked, values);
+          }}
+          onKeyDown={(e) => e.key === "Escape" && setPicked(null)}
+        >
+          <div className={styles.formTitle}>{picked.name}</div>
+          {userVariables.map((name, i) => (
+            <label key={name} className={styles.variable}>
+              <span>{name}</span>
+              <input
+                value={values[name] ?? ""}
+                onChange={(e) => setValues((v) => ({ ...v, [name]: e.target.value }))}
+                autoFocus={i === 0}
+              />
+            </label>
+          ))}
+          <div className={styles.actions}>
+            <button type="button" onClick={() => setPicked(null)}>
+              Back
+            </button>
+            <button
+              type="submit"
+              disabled={unfilled}
+              title={unfilled ? "Fill in every variable" : undefined}
+            >
+              Insert
+            </button>
+          </div>
+        </form>
+      ) : (
+        <>
+          <input
+            className={styles.search}
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActiveIndex(0);
+            }}
+            onKeyDown={handleSearchKey}
+            placeholder="Search snippets…"
+            autoFocus
+          />
+          <div className={styles.list}>
+            {matches.length === 0 && (
+              <div className={styles.empty}>
+                {snippets.length === 0
+                  ? "No snippets yet — add some from ❝ Snippets in the top bar."
+                  : "No matching snippets"}
+              </div>
+            )}
+            {matches.map((snippet, i) => (
+              <button
+                key={snippet.id}
+                className={`${styles.item} ${i === activeIndex ? styles.itemActive : ""}`}
+                onClick={() => pick(snippet)}
+              >
+                <span className={styles.name}>{snippet.name}</span>
+                <span className={styles.preview}>{snippet.body.slice(0, 80)}</span>
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -2,9 +2,20 @@ import { useDeckStats } from "../hooks";
 import { useDeckStore } from "../lib/store";
 import styles from "./StatusBar.module.css";
 
+/** Bring a column into view and put the cursor in its input */
+function focusColumn(agentId: string) {
+  const column = document.querySelector<HTMLElement>(
+    `[data-agent-id="${CSS.escape(agentId)}"]`
+  );
+  column?.scrollIntoView({ behavior: "smooth", inline: "nearest", block: "nearest" });
+  column?.querySelector<HTMLTextAreaElement>("textarea")?.focus({ preventScroll: true });
+}
+
 export function StatusBar() {
   const stats = useDeckStats();
   const gatewayUrl = useDeckStore((s) => s.config.gatewayUrl);
+  const agents = useDeckStore((s) => s.config.agents);
+  const storageWarning = useDeckStore((s) => s.storageWarning);
 
   return (
     <div className={styles.bar}>
@@ -30,9 +41,34 @@ export function StatusBar() {
       <span>
         {stats.totalAgents} agents · {stats.active} active
         {stats.waitingForUser > 0 && <> · {stats.waitingForUser} waiting</>}
-        {stats.errors > 0 && <> · <span className={styles.error}>{stats.errors} {stats.errors === 1 ? "error" : "errors"}</span></>}
+        {stats.errors > 0 && (
+          <>
+            {" "}·{" "}
+            <span className={styles.error}>
+              {stats.errors} {stats.errors === 1 ? "error" : "errors"}:
+            </span>
+            {stats.errorAgentIds.map((id) => (
+              <button
+                key={id}
+                className={styles.errorLink}
+                onClick={() => focusColumn(id)}
+                title="Jump to column"
+              >
+                {agents.find((a) => a.id === id)?.name ?? id}
+              </button>
+            ))}
+          </>
+        )}
       </span>
       <span className={styles.spacer} />
+      {storageWarning && (
+        <span
+          className={styles.storageWarning}
+          title="Close unused columns or clear long transcripts to free space"
+        >
+          ⚠ {storageWarning}
+        </span>
+      )}
       <span>openclaw-deck v2026.2.9</span>
     </div>
   );
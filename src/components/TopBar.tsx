@@ -1,7 +1,14 @@
 import { useState, useEffect } from "react";
 import { useDeckStats } from "../hooks";
 import { useDeckStore } from "../lib/store";
+import { defaultSessionKey } from "../lib/session-keys";
 import { ThemeSwitcher } from "./ThemeSwitcher";
+import { BroadcastPanel } from "./BroadcastPanel";
+import { PipelineEditor } from "./PipelineEditor";
+import { SnippetLibrary } from "./SnippetLibrary";
+import { ExportMenu } from "./ExportMenu";
+import { UsageDashboard } from "./UsageDashboard";
+import { SearchPanel } from "./SearchPanel";
 import styles from "./TopBar.module.css";
 
 const TABS = ["All Agents", "Active", "Queued", "Completed"] as const;
@@ -18,8 +25,20 @@ export function TopBar({
   const stats = useDeckStats();
   const agents = useDeckStore((s) => s.config.agents);
   const sessions = useDeckStore((s) => s.sessions);
+  const abortAllRuns = useDeckStore((s) => s.abortAllRuns);
+  const showReasoning = useDeckStore((s) => s.showReasoning);
+  const setShowReasoning = useDeckStore((s) => s.setShowReasoning);
   const [time, setTime] = useState(new Date());
   const [handoffState, setHandoffState] = useState<"idle" | "ok" | "error">("idle");
+  const [showBroadcast, setShowBroadcast] = useState(false);
+  const [showPipelines, setShowPipelines] = useState(false);
+  const [showSnippets, setShowSnippets] = useState(false);
+  const [showUsage, setShowUsage] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const columnOrder = useDeckStore((s) => s.columnOrder);
+  const pipelineCount = useDeckStore(
+    (s) => s.pipelines.filter((p) => p.enabled).length
+  );
 
   useEffect(() => {
     const t = setInterval(() => setTime(new Date()), 1000);
@@ -37,7 +56,7 @@ export function TopBar({
       const messages = session?.messages ?? [];
       const lastAssistant = [...messages].reverse().find((m) => m.role === "assistant" && m.text?.trim());
       const status = session?.status ?? "idle";
-      const sessionKey = `agent:main:${agent.id}`;
+      const sessionKey = session?.sessionKey ?? defaultSessionKey(agent);
 
       lines.push(`## ${agent.name} (${agent.id})`);
       lines.push(`- Status: ${status}`);
@@ -127,6 +146,70 @@ export function TopBar({
 
       <ThemeSwitcher />
 
+      {stats.active > 0 && (
+        <button className={styles.stopAllBtn} onClick={abortAllRuns}>
+          ■ Stop All
+        </button>
+      )}
+
+      <button
+        className={styles.handoffBtn}
+        onClick={() => setShowSearch(true)}
+        title="Search every column's transcript"
+      >
+        ⌕ Search
+      </button>
+
+      <button
+        className={styles.handoffBtn}
+        onClick={() => setShowBroadcast(true)}
+        title="Send one prompt to several columns"
+      >
+        ⇉ Broadcast
+      </button>
+
+      <button
+        className={`${styles.handoffBtn} ${pipelineCount > 0 ? styles.toggleOn : ""}`}
+        onClick={() => setShowPipelines(true)}
+        title="Chain columns together"
+      >
+        ⛓ Pipelines{pipelineCount > 0 && ` (${pipelineCount})`}
+      </button>
+
+      <button
+        className={styles.handoffBtn}
+        onClick={() => setShowSnippets(true)}
+        title="Manage the prompt snippet library"
+      >
+        ❝ Snippets
+      </button>
+
+      <button
+        className={styles.handoffBtn}
+        onClick={() => setShowUsage(true)}
+        title="Token and cost history"
+      >
+        $ Usage
+      </button>
+
+      <button
+        className={`${styles.handoffBtn} ${showReasoning ? styles.toggleOn : ""}`}
+        onClick={() => setShowReasoning(!showReasoning)}
+        title={showReasoning ? "Hide agent reasoning" : "Show agent reasoning"}
+        aria-pressed={showReasoning}
+      >
+        Reasoning {showReasoning ? "on" : "off"}
+      </button>
+
+      <ExportMenu
+        agentIds={columnOrder}
+        name="openclaw-deck"
+        label="⤓ Export"
+        className={styles.handoffBtn}
+        align="right"
+        allowImport
+      />
+
       <button className={styles.handoffBtn} onClick={copyHandoff}>
         {handoffState === "ok"
           ? "✓ Handoff Copied"
@@ -138,6 +221,22 @@ export function TopBar({
       <button className={styles.addBtn} onClick={onAddAgent}>
         <span>+</span> New Agent
       </button>
+
+      {showBroadcast && (
+        <BroadcastPanel
+          activeTab={activeTab}
+          tabs={TABS}
+          onClose={() => setShowBroadcast(false)}
+        />
+      )}
+
+      {showPipelines && <PipelineEditor onClose={() => setShowPipelines(false)} />}
+
+      {showSnippets && <SnippetLibrary onClose={() => setShowSnippets(false)} />}
+
+      {showUsage && <UsageDashboard onClose={() => setShowUsage(false)} />}
+
+      {showSearch && <SearchPanel onClose={() => setShowSearch(false)} />}
     </div>
   );
 }
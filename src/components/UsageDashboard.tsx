@@ -0,0 +1,215 @@
+import { useMemo, useState } from "react";
+import { useDeckStore } from "../lib/store";
+import {
+  bucketsSince,
+  dailyTotals,
+  dayOf,
+  formatCost,
+  totalsBy,
+  usageToCsv,
+  type UsageSummary,
+} from "../lib/usage";
+import { downloadFile } from "../lib/export";
+import { periodSpend } from "../lib/budgets";
+import type { Budget, UsageLedger } from "../types";
+import { BudgetFields, budgetFromDraft, draftFromBudget } from "./BudgetFields";
+import styles from "./UsageDashboard.module.css";
+
+const RANGES = [7, 30, 90] as const;
+
+function Breakdown({
+  title,
+  rows,
+  metric,
+}: {
+  title: string;
+  rows: UsageSummary[];
+  metric: "costCents" | "totalTokens";
+}) {
+  const max = Math.max(...rows.map((r) => r[metric]), 1);
+  return (
+    <div className={styles.breakdown}>
+      <div className={styles.sectionTitle}>{title}</div>
+      {rows.length === 0 && <div className={styles.hint}>No usage in this range</div>}
+      {rows.map((row) => (
+        <div key={row.key} className={styles.row}>
+          <span className={styles.rowLabel} title={row.key}>
+            {row.label}
+          </span>
+          <div className={styles.rowBar}>
+            <div style={{ width: `${(row[metric] / max) * 100}%` }} />
+          </div>
+          <span className={styles.rowValue}>{row.totalTokens.toLocaleString()} tok</span>
+          <span className={styles.rowValue}>{formatCost(row.costCents)}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const PERIOD_LABELS: Record<Budget["period"], string> = {
+  day: "Today",
+  month: "This month",
+};
+
+function DeckBudget({ ledger }: { ledger: UsageLedger }) {
+  const deckBudget = useDeckStore((s) => s.deckBudget);
+  const setDeckBudget = useDeckStore((s) => s.setDeckBudget);
+  const [draft, setDraft] = useState(() => draftFromBudget(deckBudget));
+
+  const next = budgetFromDraft(draft) ?? null;
+  const dirty = JSON.stringify(next) !== JSON.stringify(deckBudget);
+  const period: Budget["period"] = deckBudget?.period ?? draft.period;
+  const spend = periodSpend(ledger, period, null);
+
+  return (
+    <div className={styles.budget}>
+      <div className={styles.sectionTitle}>Deck budget</div>
+      <BudgetFields draft={draft} onChange={setDraft} />
+      <div className={styles.budgetFooter}>
+        <span className={styles.hint}>
+          {PERIOD_LABELS[period]}: {formatCost(spend.costCents)} · {spend.tokens.toLocaleString()} tokens.
+          Columns can set their own budget in ⚙ settings.
+        </span>
+        <button
+          className={styles.headerBtn}
+          onClick={() => setDeckBudget(next)}
+          disabled={!dirty}
+        >
+          Save budget
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export function UsageDashboard({ onClose }: { onClose: () => void }) {
+  const ledger = useDeckStore((s) => s.usageLedger);
+  const clearUsageHistory = useDeckStore((s) => s.clearUsageHistory);
+  const [days, setDays] = useState<number>(30);
+  const [confirmClear, setConfirmClear] = useState(false);
+
+  const inRange = useMemo(() => bucketsSince(ledger.buckets, days), [ledger, days]);
+  const daily = useMemo(() => dailyTotals(inRange, days), [inRange, days]);
+  const byModel = useMemo(() => totalsBy(inRange, "model"), [inRange]);
+  const byAgent = useMemo(() => totalsBy(inRange, "agentId"), [inRange]);
+
+  const totalCost = inRange.reduce((sum, b) => sum + b.costCents, 0);
+  const totalTokens = inRange.reduce((sum, b) => sum + b.totalTokens, 0);
+  const today = dayOf(Date.now());
+  const todayCost = inRange
+    .filter((b) => b.day === today)
+    .reduce((sum, b) => sum + b.costCents, 0);
+
+  // Chart spend when the gateway reports cost, tokens otherwise
+  const metric = totalCost > 0 ? "costCents" : "totalTokens";
+  const maxDay = Math.max(...daily.map((d) => d[metric]), 1);
+
+  return (
+    <div
+      className={styles.overlay}
+      onClick={onClose}
+      onKeyDown={(e) => e.key === "Escape" && onClose()}
+    >
+      <div className={styles.panel} onClick={(e) => e.stopPropagation()}>
+        <div className={styles.header}>
+          <div className={styles.title}>Usage</div>
+          <div className={styles.ranges}>
+            {RANGES.map((range) => (
+              <button
+                key={range}
+                className={`${styles.rangeBtn} ${days === range ? styles.rangeActive : ""}`}
+                onClick={() => setDays(range)}
+              >
+                {range}d
+              </button>
+            ))}
+          </div>
+          <button
+            className={styles.headerBtn}
+            onClick={() =>
+              downloadFile(
+                `deck-usage-${today}.csv`,
+                usageToCsv(ledger.buckets),
+                "text/csv"
+              )
+            }
+            disabled={ledger.buckets.length === 0}
+          >
+            Export CSV
+          </button>
+          <button
+            className={`${styles.headerBtn} ${confirmClear ? styles.danger : ""}`}
+            onClick={() => {
+              if (confirmClear) {
+                clearUsageHistory();
+                setConfirmClear(false);
+              } else {
+                setConfirmClear(true);
+                setTimeout(() => setConfirmClear(false), 3000);
+              }
+            }}
+            disabled={ledger.buckets.length === 0}
+          >
+            {confirmClear ? "Click to confirm" : "Clear"}
+          </button>
+          <button className={styles.closeBtn} onClick={onClose} aria-label="Close">
+            ×
+          </button>
+        </div>
+
+        <div className={styles.content}>
+          <div className={styles.summary}>
+            <div className={styles.stat}>
+              <span className={styles.statValue}>{formatCost(totalCost)}</span>
+              <span className={styles.statLabel}>spend · last {days} days</span>
+            </div>
+            <div className={styles.stat}>
+              <span className={styles.statValue}>{totalTokens.toLocaleString()}</span>
+              <span className={styles.statLabel}>tokens</span>
+            </div>
+            <div className={styles.stat}>
+              <span className={styles.statValue}>{formatCost(todayCost)}</span>
+              <span className={styles.statLabel}>today</span>
+            </div>
+          </div>
+
+          <div className={styles.sectionTitle}>
+            Daily {metric === "costCents" ? "spend" : "tokens"}
+          </div>
+          <div className={styles.chart}>
+            {daily.map((d) => (
+              <div
+                key={d.key}
+                className={styles.bar}
+                title={`${d.key}: ${formatCost(d.costCents)} · ${d.totalTokens.toLocaleString()} tokens`}
+              >
+                <div
+                  className={styles.barFill}
+                  style={{ height: `${(d[metric] / maxDay) * 100}%` }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className={styles.chartAxis}>
+            <span>{daily[0]?.label}</span>
+            <span>{daily[daily.length - 1]?.label}</span>
+          </div>
+
+          <div className={styles.breakdowns}>
+            <Breakdown title="By model" rows={byModel} metric={metric} />
+            <Breakdown title="By agent" rows={byAgent} metric={metric} />
+          </div>
+
+          {ledger.buckets.length === 0 && (
+            <div className={styles.hint}>
+              Usage is recorded from the gateway's usage reports as columns run.
+            </div>
+          )}
+
+          <DeckBudget ledger={ledger} />
+        </div>
+      </div>
+    </div>
+  );
+}
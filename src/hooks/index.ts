@@ -1,21 +1,23 @@
-import { useEffect, useRef, useCallback } from "react";
+import { useEffect, useLayoutEffect, useRef, useCallback } from "react";
 import { useDeckStore } from "../lib/store";
-import type { AgentConfig, DeckConfig } from "../types";
+import type { AgentConfig, ChatMessage, DeckConfig } from "../types";
 
 /**
  * Initialize the deck with config. Call once at app root.
- * Now properly handles dynamic agent updates including model changes.
+ * Re-initializes only when the set of agent ids or the connection changes;
+ * per-agent edits (model, name, ...) go through the store and never tear
+ * down the gateway connection.
  */
 export function useDeckInit(config: Partial<DeckConfig>) {
   const initialize = useDeckStore((s) => s.initialize);
   const disconnect = useDeckStore((s) => s.disconnect);
   const prevAgentsRef = useRef<string>("");
 
-  // Get a stable key for the agents array to detect changes (including model changes)
-  const agentsKey = config.agents?.map(a => `${a.id}:${a.model}`).join(",") || "";
+  // Stable key for the agent set — deliberately ignores per-agent settings
+  const agentsKey = config.agents?.map((a) => a.id).join(",") || "";
 
   useEffect(() => {
-    // Only re-initialize if agents have actually changed (including model)
+    // Only re-initialize if the agent set has actually changed
     if (prevAgentsRef.current !== agentsKey) {
       prevAgentsRef.current = agentsKey;
       
@@ -56,20 +58,65 @@ export function useSendMessage(agentId: string) {
   );
 }
 
+/** Distance from an edge (px) that still counts as "at" that edge */
+const SCROLL_EDGE_PX = 80;
+
 /**
- * Auto-scroll a container to bottom when content changes.
+ * Keep a message list scrolled to the bottom while new content arrives —
+ * unless the user has scrolled up to read older content. When older
+ * messages are prepended, the viewport stays on what the user was reading.
+ * `onReachTop` fires when the user scrolls near the top (to load more).
  */
-export function useAutoScroll(dep: unknown) {
+export function useAutoScroll(
+  messages: ChatMessage[] | undefined,
+  onReachTop?: () => void
+) {
   const ref = useRef<HTMLDivElement>(null);
+  const stickToBottom = useRef(true);
+  const lastScrollTop = useRef(0);
+  const prevFirstId = useRef<string | undefined>(undefined);
+  const prevScrollHeight = useRef(0);
 
-  useEffect(() => {
+  useLayoutEffect(() => {
     const el = ref.current;
-    if (el) {
+    if (!el || !messages) return;
+
+    const firstId = messages[0]?.id;
+    const prepended =
+      prevFirstId.current !== undefined &&
+      firstId !== prevFirstId.current &&
+      messages.some((m) => m.id === prevFirstId.current);
+
+    if (prepended) {
+      el.scrollTo({
+        top: el.scrollTop + el.scrollHeight - prevScrollHeight.current,
+        behavior: "instant",
+      });
+    } else if (stickToBottom.current) {
       el.scrollTo({ top: el.scrollHeight, behavior: "smooth" });
     }
-  }, [dep]);
 
-  return ref;
+    prevFirstId.current = firstId;
+    prevScrollHeight.current = el.scrollHeight;
+  }, [messages]);
+
+  const onScroll = useCallback(() => {
+    const el = ref.current;
+    if (!el) return;
+
+    const fromBottom = el.scrollHeight - el.scrollTop - el.clientHeight;
+    if (fromBottom < SCROLL_EDGE_PX) {
+      stickToBottom.current = true;
+    } else if (el.scrollTop < lastScrollTop.current) {
+      // Only an upward scroll detaches; smooth auto-scrolls only go down
+      stickToBottom.current = false;
+    }
+    lastScrollTop.current = el.scrollTop;
+
+    if (el.scrollTop < SCROLL_EDGE_PX) onReachTop?.();
+  }, [onReachTop]);
+
+  return { ref, onScroll };
 }
 
 /**
@@ -82,7 +129,10 @@ export function useDeckStats() {
   const agents = Object.values(sessions);
   const streaming = agents.filter((a) => a.status === "streaming").length;
   const thinking = agents.filter((a) => a.status === "thinking").length;
-  const errors = agents.filter((a) => a.status === "error").length;
+  const toolUse = agents.filter((a) => a.status === "tool_use").length;
+  const errorAgentIds = agents
+    .filter((a) => a.status === "error")
+    .map((a) => a.agentId);
   const totalTokens = agents.reduce(
     (sum, a) => sum + (a.usage?.totalTokens ?? a.tokenCount),
     0
@@ -98,9 +148,11 @@ export function useDeckStats() {
     totalAgents: agents.length,
     streaming,
     thinking,
-    active: streaming + thinking,
-    idle: agents.length - streaming - thinking,
-    errors,
+    toolUse,
+    active: streaming + thinking + toolUse,
+    idle: agents.length - streaming - thinking - toolUse,
+    errors: errorAgentIds.length,
+    errorAgentIds,
     totalTokens,
     waitingForUser,
   };
@@ -0,0 +1,117 @@
+/**
+ * Broadcasts.
+ *
+ * A broadcast sends one prompt to several columns. Each column's user message
+ * is tagged with the broadcast id, so the fan-out and its answers can be read
+ * back from the transcripts (and survive reloads with them).
+ */
+
+import type { AgentSession, ChatMessage } from "../types";
+
+export type BroadcastResponseStatus =
+  | "queued"
+  | "waiting"
+  | "running"
+  | "done"
+  | "error";
+
+export interface BroadcastResponse {
+  agentId: string;
+  status: BroadcastResponseStatus;
+  /** Answer text (all assistant messages of the turn) */
+  text: string;
+  error?: string;
+}
+
+export interface BroadcastSummary {
+  id: string;
+  text: string;
+  sentAt: number;
+  responses: BroadcastResponse[];
+}
+
+/** Columns shown under a TopBar tab */
+export function columnsForTab(
+  tab: string,
+  columnOrder: string[],
+  sessions: Record<string, AgentSession>
+): string[] {
+  return columnOrder.filter((id) => {
+    const session = sessions[id];
+    if (!session) return false;
+    const last = session.messages[session.messages.length - 1];
+    switch (tab) {
+      case "Active":
+        return (
+          session.status === "streaming" ||
+          session.status === "thinking" ||
+          session.status === "tool_use"
+        );
+      case "Queued":
+        return session.messages.some((m) => m.pending);
+      case "Completed":
+        return (
+          session.status === "idle" &&
+          last?.role === "assistant" &&
+          !last.streaming
+        );
+      default:
+        return true;
+    }
+  });
+}
+
+function responseFor(
+  agentId: string,
+  session: AgentSession,
+  start: number
+): BroadcastResponse {
+  const prompt = session.messages[start];
+  if (prompt.pending) return { agentId, status: "queued", text: "" };
+
+  // The turn runs until the next prompt that isn't a re-send of this one
+  const turn: ChatMessage[] = [];
+  for (let i = start + 1; i < session.messages.length; i++) {
+    const msg = session.messages[i];
+    if (msg.role === "user" && !msg.resent) break;
+    turn.push(msg);
+  }
+
+  const text = turn
+    .filter((m) => m.role === "assistant" && m.text)
+    .map((m) => m.text)
+    .join("\n\n");
+  const error = [...turn].reverse().find((m) => m.role === "error");
+  const running = turn.some((m) => m.streaming);
+
+  let status: BroadcastResponseStatus;
+  if (running) status = "running";
+  else if (error) status = "error";
+  else if (text) status = "done";
+  else status = "waiting";
+
+  return { agentId, status, text, error: error?.error?.message ?? error?.text };
+}
+
+/** Broadcasts found in the columns' transcripts, newest first */
+export function collectBroadcasts(
+  columnOrder: string[],
+  sessions: Record<string, AgentSession>
+): BroadcastSummary[] {
+  const byId = new Map<string, BroadcastSummary>();
+  for (const agentId of columnOrder) {
+    const session = sessions[agentId];
+    if (!session) continue;
+    session.messages.forEach((msg, index) => {
+      if (!msg.broadcastId || msg.role !== "user" || msg.resent) return;
+      let summary = byId.get(msg.broadcastId);
+      if (!summary) {
+        summary = { id: msg.broadcastId, text: msg.text, sentAt: msg.timestamp, responses: [] };
+        byId.set(msg.broadcastId, summary);
+      }
+      summary.sentAt = Math.min(summary.sentAt, msg.timestamp);
+      summary.responses.push(responseFor(agentId, session, index));
+    });
+  }
+  return [...byId.values()].sort((a, b) => b.sentAt - a.sentAt);
+}
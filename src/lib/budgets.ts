@@ -0,0 +1,128 @@
+/**
+ * Budget guardrails.
+ *
+ * Budgets are checked against the usage ledger (fed by sessions.usage, see
+ * lib/usage.ts) for the current day or month. A column is limited by its own
+ * budget and by the deck-wide one, whichever is worse. A crossed hard limit
+ * blocks new turns until it is overridden; an override lasts for the rest of
+ * the budget's period.
+ */
+
+import type { AgentConfig, Budget, BudgetLimit, UsageLedger } from "../types";
+import { dayOf, formatCost } from "./usage";
+
+/** Error code of turns refused by a hard limit */
+export const BUDGET_EXCEEDED = "BUDGET_EXCEEDED";
+
+/** A turn refused by a hard limit; `message` says which one */
+export class BudgetExceededError extends Error {
+  readonly code = BUDGET_EXCEEDED;
+
+  constructor(reason: string) {
+    super(reason);
+    this.name = "BudgetExceededError";
+  }
+}
+
+/** Override scope for the deck-wide budget; columns use agentBudgetScope */
+export const DECK_BUDGET_SCOPE = "deck";
+
+/** Override scope for a column's budget; prefixed so no agent id is "deck" */
+export function agentBudgetScope(agentId: string): string {
+  return `agent:${agentId}`;
+}
+
+export type BudgetLevel = "soft" | "hard";
+
+export interface BudgetCheck {
+  level: BudgetLevel;
+  /** Whose budget was crossed: agentBudgetScope(id) or DECK_BUDGET_SCOPE */
+  scope: string;
+  reason: string;
+  /** A hard limit was crossed but overridden for this period */
+  overridden?: boolean;
+}
+
+/** Identifies the budget's current period, e.g. "2026-10-19" or "2026-10" */
+export function periodKey(period: Budget["period"], now = Date.now()): string {
+  const day = dayOf(now);
+  return period === "day" ? day : day.slice(0, 7);
+}
+
+/** Recorded usage in the current period, for one agent or the whole deck */
+export function periodSpend(
+  ledger: UsageLedger,
+  period: Budget["period"],
+  agentId: string | null,
+  now = Date.now()
+): { tokens: number; costCents: number } {
+  const key = periodKey(period, now);
+  let tokens = 0;
+  let costCents = 0;
+  for (const b of ledger.buckets) {
+    if (!b.day.startsWith(key) || (agentId && b.agentId !== agentId)) continue;
+    tokens += b.totalTokens;
+    costCents += b.costCents;
+  }
+  return { tokens, costCents };
+}
+
+function crossed(
+  limit: BudgetLimit | undefined,
+  spend: { tokens: number; costCents: number }
+): string | null {
+  if (limit?.costCents !== undefined && spend.costCents >= limit.costCents) {
+    return `${formatCost(spend.costCents)} of ${formatCost(limit.costCents)}`;
+  }
+  if (limit?.tokens !== undefined && spend.tokens >= limit.tokens) {
+    return `${spend.tokens.toLocaleString()} of ${limit.tokens.toLocaleString()} tokens`;
+  }
+  return null;
+}
+
+/** `agentId` null checks the deck-wide budget */
+function checkOne(
+  budget: Budget | null | undefined,
+  agentId: string | null,
+  label: string,
+  ledger: UsageLedger,
+  overrides: Record<string, string>,
+  now: number
+): BudgetCheck | null {
+  if (!budget) return null;
+  const scope = agentId === null ? DECK_BUDGET_SCOPE : agentBudgetScope(agentId);
+  const spend = periodSpend(ledger, budget.period, agentId, now);
+  const when = budget.period === "day" ? "today" : "this month";
+
+  const hard = crossed(budget.hard, spend);
+  if (hard) {
+    const overridden = overrides[scope] === periodKey(budget.period, now);
+    return {
+      level: overridden ? "soft" : "hard",
+      scope,
+      reason: `${label} hard limit reached: ${hard} ${when}`,
+      ...(overridden ? { overridden } : {}),
+    };
+  }
+  const soft = crossed(budget.soft, spend);
+  return soft
+    ? { level: "soft", scope, reason: `${label} soft limit reached: ${soft} ${when}` }
+    : null;
+}
+
+const SEVERITY: Record<BudgetLevel, number> = { soft: 1, hard: 2 };
+
+/** Worst of the column's and the deck's budget checks; null when within both */
+export function checkBudgets(
+  agent: AgentConfig | undefined,
+  deckBudget: Budget | null,
+  ledger: UsageLedger,
+  overrides: Record<string, string>,
+  now = Date.now()
+): BudgetCheck | null {
+  const checks = [
+    agent ? checkOne(agent.budget, agent.id, agent.name, ledger, overrides, now) : null,
+    checkOne(deckBudget, null, "Deck", ledger, overrides, now),
+  ].filter((c): c is BudgetCheck => c !== null);
+  return checks.sort((a, b) => SEVERITY[b.level] - SEVERITY[a.level])[0] ?? null;
+}
@@ -0,0 +1,203 @@
+/**
+ * Slash commands for the column composer.
+ *
+ * Commands live in a registry so deck features can add their own with
+ * registerCommand(). The composer looks a command up when the input starts
+ * with "/"; unknown commands show help instead of being sent. Start a
+ * message with "//" to send a literal slash.
+ */
+
+import { useDeckStore } from "./store";
+import { downloadTranscript, exportedColumn, type ExportFormat } from "./export";
+import { resolveModel } from "./models";
+
+export interface CommandContext {
+  /** Column the command was typed in */
+  agentId: string;
+  /** Show a line of feedback under the column's composer */
+  notify: (message: string) => void;
+}
+
+export interface SlashCommand {
+  /** Name without the slash */
+  name: string;
+  /** Argument hint shown in autocomplete, e.g. "<id>" */
+  args?: string;
+  description: string;
+  run: (ctx: CommandContext, args: string) => void | Promise<void>;
+}
+
+const registry = new Map<string, SlashCommand>();
+
+/** Add a command; returns a function that removes it again */
+export function registerCommand(command: SlashCommand): () => void {
+  registry.set(command.name, command);
+  return () => {
+    if (registry.get(command.name) === command) registry.delete(command.name);
+  };
+}
+
+export function listCommands(): SlashCommand[] {
+  return [...registry.values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/** Split "/name args" into its parts; null when the text isn't a command */
+export function parseCommand(text: string): { name: string; args: string } | null {
+  const match = /^\/(\S*)\s*([\s\S]*)$/.exec(text.trim());
+  if (!match || text.startsWith("//")) return null;
+  return { name: match[1].toLowerCase(), args: match[2].trim() };
+}
+
+/** Commands whose name starts with what's been typed after the slash */
+export function completeCommand(text: string): SlashCommand[] {
+  if (!text.startsWith("/") || text.startsWith("//") || /\s/.test(text)) return [];
+  const prefix = text.slice(1).toLowerCase();
+  return listCommands().filter((c) => c.name.startsWith(prefix));
+}
+
+export function commandUsage(command: SlashCommand): string {
+  return `/${command.name}${command.args ? ` ${command.args}` : ""}`;
+}
+
+function helpText(): string {
+  return listCommands()
+    .map((c) => `${commandUsage(c)} — ${c.description}`)
+    .join("\n");
+}
+
+/**
+ * Run a composer line as a command. Returns false when the text isn't a
+ * command at all and should be sent as a message.
+ */
+export async function runCommand(text: string, ctx: CommandContext): Promise<boolean> {
+  const parsed = parseCommand(text);
+  if (!parsed) return false;
+
+  const command = registry.get(parsed.name);
+  if (!command) {
+    ctx.notify(
+      `${parsed.name ? `Unknown command /${parsed.name}. ` : ""}Commands:\n${helpText()}`
+    );
+    return true;
+  }
+
+  try {
+    await command.run(ctx, parsed.args);
+  } catch (err) {
+    ctx.notify(`/${command.name} failed: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return true;
+}
+
+// ─── Built-in commands ───
+
+const deck = () => useDeckStore.getState();
+
+registerCommand({
+  name: "help",
+  description: "List the available commands",
+  run: (ctx) => ctx.notify(helpText()),
+});
+
+registerCommand({
+  name: "clear",
+  description: "Clear this column's transcript (the gateway session is kept)",
+  run: ({ agentId }) => deck().clearMessages(agentId),
+});
+
+registerCommand({
+  name: "new",
+  description: "Start a new gateway session in this column",
+  run: ({ agentId }) => deck().startNewSession(agentId),
+});
+
+registerCommand({
+  name: "model",
+  args: "<id>",
+  description: "Switch this column's model",
+  run: async ({ agentId, notify }, args) => {
+    const { availableModels, config } = deck();
+    if (!args) {
+      const current = config.agents.find((a) => a.id === agentId)?.model;
+      notify(
+        `Current model: ${current ?? "default"}\nAvailable: ${availableModels
+          .map((m) => m.id)
+          .join(", ")}`
+      );
+      return;
+    }
+    const model =
+      (
+        resolveModel(availableModels, args) ??
+        availableModels.find((m) => m.name.toLowerCase() === args.toLowerCase())
+      )?.id ?? args;
+    await deck().updateAgentConfig(agentId, { model });
+    notify(`Model set to ${model}`);
+  },
+});
+
+const EXPORT_FORMATS: Record<string, ExportFormat> = {
+  "": "markdown",
+  md: "markdown",
+  markdown: "markdown",
+  json: "json",
+  html: "html",
+};
+
+registerCommand({
+  name: "export",
+  args: "[md|json|html]",
+  description: "Download this column's transcript",
+  run: ({ agentId, notify }, args) => {
+    const format = EXPORT_FORMATS[args.toLowerCase()];
+    if (!format) {
+      notify("Usage: /export [md|json|html]");
+      return;
+    }
+    const { config, sessions } = deck();
+    const agent = config.agents.find((a) => a.id === agentId);
+    const session = sessions[agentId];
+    if (!agent || !session) return;
+    downloadTranscript([exportedColumn(agent, session)], format, agent.name);
+  },
+});
+
+registerCommand({
+  name: "compact",
+  description: "Compact this session's context now",
+  run: async ({ agentId, notify }) => {
+    await deck().compactSession(agentId);
+    notify("Compaction requested");
+  },
+});
+
+registerCommand({
+  name: "rename",
+  args: "<name>",
+  description: "Rename this column",
+  run: async ({ agentId, notify }, args) => {
+    if (!args) {
+      notify("Usage: /rename <name>");
+      return;
+    }
+    await deck().updateAgentConfig(agentId, { name: args });
+  },
+});
+
+registerCommand({
+  name: "broadcast",
+  args: "<text>",
+  description: "Send a prompt to every column",
+  run: ({ notify }, args) => {
+    if (!args) {
+      notify("Usage: /broadcast <text>");
+      return;
+    }
+    // Imported columns can't take prompts
+    const { columnOrder, config } = deck();
+    const targets = columnOrder.filter(
+      (id) => !config.agents.find((a) => a.id === id)?.readOnly
+    );
+    deck().broadcastMessage(args, targets);
+  },
+});
@@ -0,0 +1,69 @@
+/**
+ * Context compaction helpers.
+ *
+ * The gateway's compaction event carries token counts, the number of its
+ * messages that were summarized and optionally the summary. Which messages
+ * those were is read from the event when the gateway lists them; otherwise
+ * it is worked out from the gateway's own history, where the count applies:
+ * compaction summarizes the oldest messages of the context, which starts
+ * after the previous compaction marker. Columns don't hold the raw history
+ * (tool results are merged into their calls, markers are left out), so their
+ * transcript can't be used for this.
+ */
+
+import type { ChatMessage, CompactedMessage } from "../types";
+import { parseHistoryMessages, type RawHistoryMessage } from "./history";
+
+/** Context usage (percent) at which a column suggests compacting */
+export const COMPACTION_SUGGEST_PERCENT = 80;
+
+/** Raw history messages fetched to find the summarized ones */
+export const COMPACTION_LOOKBACK = 200;
+
+function isMarker(msg: RawHistoryMessage): boolean {
+  return msg.__openclaw?.kind === "compaction";
+}
+
+/** Previews of parsed raw messages, as the divider lists them */
+export function compactedPreviews(raw: RawHistoryMessage[]): CompactedMessage[] {
+  return parseHistoryMessages(raw).map((msg) => ({
+    role: msg.role,
+    text: msg.toolUse ? msg.toolUse.name : msg.text.slice(0, 200),
+  }));
+}
+
+/**
+ * The `count` oldest messages of the context a compaction replaced, given
+ * the latest `history` messages (`complete` when that is the whole history).
+ * The gateway may or may not have written this compaction's marker yet: if
+ * fewer than `count` messages follow the last marker, it is this one and the
+ * context is the stretch before it. Null when the start of that context
+ * isn't in `history`.
+ */
+export function summarizedAway(
+  history: RawHistoryMessage[],
+  count: number,
+  complete: boolean
+): CompactedMessage[] | null {
+  if (count <= 0) return [];
+  const markers = history.flatMap((msg, i) => (isMarker(msg) ? [i] : []));
+
+  let end = history.length;
+  let start = markers.length > 0 ? markers[markers.length - 1] + 1 : 0;
+  if (markers.length > 0 && history.length - start < count) {
+    end = markers[markers.length - 1];
+    start = markers.length > 1 ? markers[markers.length - 2] + 1 : 0;
+  }
+  const context = history.slice(start, end);
+  if ((start === 0 && !complete) || context.length < count) return null;
+  return compactedPreviews(context.slice(0, count));
+}
+
+/** True when the context was compacted after the latest user prompt */
+export function compactedSinceLastPrompt(messages: ChatMessage[]): boolean {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === "compaction") return true;
+    if (messages[i].role === "user") return false;
+  }
+  return false;
+}
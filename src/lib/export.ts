@@ -0,0 +1,367 @@
+/**
+ * Transcript export and import.
+ *
+ * Columns export as Markdown, structured JSON or a standalone HTML page, one
+ * column at a time or the whole deck. The JSON keeps everything the deck
+ * knows about each message (timestamps, tool calls, compaction markers) plus
+ * the column's usage, and can be imported back as a read-only column.
+ */
+
+import type { AgentConfig, AgentSession, ChatMessage, SessionUsage, ToolUse } from "../types";
+import { makeId } from "./ids";
+
+export type ExportFormat = "markdown" | "json" | "html";
+
+/** Marks a file as a deck transcript export */
+const EXPORT_KIND = "openclaw-deck-transcript";
+const EXPORT_VERSION = 1;
+
+export interface ExportedColumn {
+  agent: Pick<AgentConfig, "id" | "name" | "model" | "context">;
+  sessionKey: string;
+  usage?: SessionUsage;
+  messages: ChatMessage[];
+}
+
+/** Columns read back from a JSON export */
+export interface ImportedTranscript {
+  columns: ExportedColumn[];
+  /** Malformed messages left out */
+  skipped: number;
+}
+
+export interface TranscriptExport {
+  kind: typeof EXPORT_KIND;
+  version: number;
+  exportedAt: string;
+  columns: ExportedColumn[];
+}
+
+export function exportedColumn(agent: AgentConfig, session: AgentSession): ExportedColumn {
+  return {
+    agent: { id: agent.id, name: agent.name, model: agent.model, context: agent.context },
+    sessionKey: session.sessionKey,
+    usage: session.usage,
+    // Queued prompts were never sent; unfinished answers are exported as is
+    messages: session.messages
+      .filter((m) => !m.pending)
+      .map((m) => (m.streaming ? { ...m, streaming: false } : m)),
+  };
+}
+
+// ─── Markdown ───
+
+function messageToMarkdown(agentName: string, msg: ChatMessage): string[] {
+  const time = new Date(msg.timestamp).toLocaleString();
+  if (msg.role === "user") {
+    return [`### You · ${time}`, "", msg.text, ""];
+  }
+  if (msg.role === "assistant" || msg.role === "announcement") {
+    const lines = [`### ${agentName} · ${time}`, ""];
+    if (msg.reasoning) {
+      lines.push(...msg.reasoning.split("\n").map((l) => `> ${l}`), "");
+    }
+    lines.push(msg.text, "");
+    if (msg.aborted) lines.push("_(stopped)_", "");
+    return lines;
+  }
+  if (msg.toolUse) {
+    return [`> tool: \`${msg.toolUse.name}\` (${msg.toolUse.status})`, ""];
+  }
+  if (msg.role === "error") {
+    return [`> **error** ${msg.error?.code ?? ""}: ${msg.error?.message ?? msg.text}`, ""];
+  }
+  if (msg.role === "compaction" && msg.compaction) {
+    const c = msg.compaction;
+    return [
+      "---",
+      "",
+      `_context compacted · ${c.droppedMessages} msgs dropped · ${c.beforeTokens} → ${c.afterTokens} tokens_`,
+      "",
+      ...(c.summary ? [...c.summary.split("\n").map((l) => `> ${l}`), ""] : []),
+    ];
+  }
+  return [];
+}
+
+function columnMarkdown(column: ExportedColumn): string[] {
+  const lines = [`## ${column.agent.name}`, ""];
+  if (column.agent.model) lines.push(`- Model: ${column.agent.model}`);
+  lines.push(`- Session: ${column.sessionKey}`);
+  if (column.usage) lines.push(`- Tokens: ${column.usage.totalTokens.toLocaleString()}`);
+  lines.push("");
+  for (const msg of column.messages) {
+    lines.push(...messageToMarkdown(column.agent.name, msg));
+  }
+  return lines;
+}
+
+export function toMarkdown(columns: ExportedColumn[]): string {
+  const title = columns.length === 1 ? columns[0].agent.name : "OpenClaw Deck";
+  const lines = [`# ${title}`, "", `Exported: ${new Date().toISOString()}`, ""];
+  for (const column of columns) lines.push(...columnMarkdown(column));
+  return lines.join("\n");
+}
+
+// ─── JSON ───
+
+export function toJson(columns: ExportedColumn[]): string {
+  const data: TranscriptExport = {
+    kind: EXPORT_KIND,
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    columns,
+  };
+  return JSON.stringify(data, null, 2);
+}
+
+const MESSAGE_ROLES: ChatMessage["role"][] = [
+  "user",
+  "assistant",
+  "system",
+  "compaction",
+  "announcement",
+  "tool",
+  "error",
+];
+
+const TOOL_STATUSES: ToolUse["status"][] = ["running", "done", "error"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" ? value : undefined;
+}
+
+function finiteNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Rebuild an exported message from the fields the deck understands, with a
+ * fresh id; null if it is malformed. Links to other messages (version groups)
+ * don't survive the new ids and are dropped.
+ */
+function importedMessage(raw: unknown): ChatMessage | null {
+  if (!isRecord(raw)) return null;
+  const role = MESSAGE_ROLES.find((r) => r === raw.role);
+  const timestamp = finiteNumber(raw.timestamp);
+  if (!role || typeof raw.text !== "string" || timestamp === undefined) return null;
+
+  const msg: ChatMessage = { id: makeId(), role, text: raw.text, timestamp };
+  const reasoning = optionalString(raw.reasoning);
+  if (reasoning) msg.reasoning = reasoning;
+  if (raw.aborted === true) msg.aborted = true;
+  if (raw.announcement === true) msg.announcement = true;
+  if (raw.resent === true) msg.resent = true;
+
+  if (role === "tool") {
+    const tool = raw.toolUse;
+    if (!isRecord(tool) || typeof tool.name !== "string") return null;
+    msg.toolUse = {
+      name: tool.name,
+      status: TOOL_STATUSES.find((s) => s === tool.status) ?? "done",
+      args: tool.args,
+      result: optionalString(tool.result),
+      durationMs: finiteNumber(tool.durationMs),
+    };
+  }
+  if (role === "error") {
+    const error = isRecord(raw.error) ? raw.error : {};
+    msg.error = {
+      code: optionalString(error.code) ?? "UNKNOWN",
+      message: optionalString(error.message) ?? raw.text,
+      prompt: optionalString(error.prompt),
+    };
+  }
+  if (role === "compaction") {
+    const c = raw.compaction;
+    if (!isRecord(c)) return null;
+    msg.compaction = {
+      beforeTokens: finiteNumber(c.beforeTokens) ?? 0,
+      afterTokens: finiteNumber(c.afterTokens) ?? 0,
+      droppedMessages: finiteNumber(c.droppedMessages) ?? 0,
+      summary: optionalString(c.summary),
+      summarized: Array.isArray(c.summarized)
+        ? c.summarized.flatMap((entry) => {
+            const role = isRecord(entry) && MESSAGE_ROLES.find((r) => r === entry.role);
+            const text = isRecord(entry) ? optionalString(entry.text) : undefined;
+            return role && text !== undefined ? [{ role, text }] : [];
+          })
+        : undefined,
+    };
+  }
+  return msg;
+}
+
+/** Read a JSON export back; throws if the file isn't one */
+export function parseTranscriptJson(text: string): ImportedTranscript {
+  const data = JSON.parse(text) as Partial<TranscriptExport>;
+  if (data?.kind !== EXPORT_KIND || !Array.isArray(data.columns)) {
+    throw new Error("Not an OpenClaw Deck transcript export");
+  }
+  if (typeof data.version !== "number" || data.version > EXPORT_VERSION) {
+    throw new Error("Transcript was exported by a newer deck");
+  }
+
+  let skipped = 0;
+  const columns: ExportedColumn[] = [];
+  for (const raw of data.columns as unknown[]) {
+    if (!isRecord(raw) || !isRecord(raw.agent) || typeof raw.agent.name !== "string") continue;
+    if (!Array.isArray(raw.messages)) continue;
+    const messages: ChatMessage[] = [];
+    for (const entry of raw.messages) {
+      const msg = importedMessage(entry);
+      if (msg) messages.push(msg);
+      else skipped++;
+    }
+    columns.push({
+      agent: {
+        id: optionalString(raw.agent.id) ?? "",
+        name: raw.agent.name,
+        model: optionalString(raw.agent.model),
+        context: optionalString(raw.agent.context) ?? "",
+      },
+      sessionKey: optionalString(raw.sessionKey) ?? "",
+      usage:
+        isRecord(raw.usage) && finiteNumber(raw.usage.totalTokens) !== undefined
+          ? (raw.usage as unknown as SessionUsage)
+          : undefined,
+      messages,
+    });
+  }
+  return { columns, skipped };
+}
+
+// ─── HTML ───
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function messageToHtml(agentName: string, msg: ChatMessage): string {
+  const time = escapeHtml(new Date(msg.timestamp).toLocaleString());
+  if (msg.role === "user" || msg.role === "assistant" || msg.role === "announcement") {
+    const who = msg.role === "user" ? "You" : agentName;
+    const reasoning = msg.reasoning
+      ? `<details><summary>reasoning</summary><div class="reasoning">${escapeHtml(msg.reasoning)}</div></details>`
+      : "";
+    return `<div class="msg ${msg.role === "user" ? "user" : "agent"}">
+  <div class="meta">${escapeHtml(who)} · ${time}</div>${reasoning}
+  <div class="text">${escapeHtml(msg.text)}</div>
+</div>`;
+  }
+  if (msg.toolUse) {
+    const args =
+      msg.toolUse.args === undefined ? "" : escapeHtml(JSON.stringify(msg.toolUse.args, null, 2));
+    return `<details class="tool"><summary>⚙ ${escapeHtml(msg.toolUse.name)} · ${msg.toolUse.status}</summary>${
+      args ? `<pre>${args}</pre>` : ""
+    }${msg.toolUse.result ? `<pre>${escapeHtml(msg.toolUse.result)}</pre>` : ""}</details>`;
+  }
+  if (msg.role === "error") {
+    return `<div class="error">⚠ ${escapeHtml(msg.error?.code ?? "")} ${escapeHtml(
+      msg.error?.message ?? msg.text
+    )}</div>`;
+  }
+  if (msg.role === "compaction" && msg.compaction) {
+    const c = msg.compaction;
+    const summary = c.summary
+      ? `<details><summary>summary</summary><div class="reasoning">${escapeHtml(c.summary)}</div></details>`
+      : "";
+    return `<div class="compaction">context compacted · ${c.droppedMessages} msgs dropped · ${c.beforeTokens} → ${c.afterTokens} tokens${summary}</div>`;
+  }
+  return "";
+}
+
+const HTML_STYLES = `
+body { margin: 0; background: #0e0f13; color: #e4e4e7; font: 14px/1.55 system-ui, sans-serif; }
+main { max-width: 820px; margin: 0 auto; padding: 32px 20px; }
+h1 { font-size: 20px; } h2 { font-size: 16px; margin-top: 40px; border-bottom: 1px solid #27272a; padding-bottom: 6px; }
+.info { color: #71717a; font-size: 12px; }
+.msg { margin: 14px 0; padding: 10px 14px; border-radius: 10px; }
+.msg.user { background: #1c1d24; margin-left: 15%; }
+.msg.agent { border-left: 2px solid #a78bfa; }
+.meta { font-size: 11px; color: #71717a; margin-bottom: 4px; }
+.text, .reasoning, pre { white-space: pre-wrap; word-break: break-word; }
+.reasoning { color: #a1a1aa; font-style: italic; }
+pre { font: 12px/1.4 ui-monospace, monospace; background: #16171c; padding: 8px; border-radius: 6px; }
+details { margin: 6px 0; color: #a1a1aa; font-size: 12px; }
+.error { color: #ef4444; font-size: 13px; margin: 10px 0; }
+.compaction { text-align: center; color: #71717a; font-size: 11px; margin: 18px 0; border-top: 1px dashed #27272a; padding-top: 6px; }
+`;
+
+export function toHtml(columns: ExportedColumn[]): string {
+  const title = columns.length === 1 ? columns[0].agent.name : "OpenClaw Deck";
+  const sections = columns
+    .map((column) => {
+      const info = [
+        column.agent.model,
+        column.sessionKey,
+        column.usage ? `${column.usage.totalTokens.toLocaleString()} tokens` : "",
+      ]
+        .filter((part): part is string => !!part)
+        .map(escapeHtml)
+        .join(" · ");
+      const body = column.messages.map((m) => messageToHtml(column.agent.name, m)).join("\n");
+      return `<section><h2>${escapeHtml(column.agent.name)}</h2><div class="info">${info}</div>\n${body}</section>`;
+    })
+    .join("\n");
+
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${escapeHtml(title)}</h1>
+<div class="info">Exported ${escapeHtml(new Date().toLocaleString())}</div>
+${sections}
+</main>
+</body>
+</html>
+`;
+}
+
+// ─── Files ───
+
+const FORMAT_FILES: Record<ExportFormat, { ext: string; type: string }> = {
+  markdown: { ext: "md", type: "text/markdown" },
+  json: { ext: "json", type: "application/json" },
+  html: { ext: "html", type: "text/html" },
+};
+
+/** Download columns in one of the export formats */
+export function downloadTranscript(
+  columns: ExportedColumn[],
+  format: ExportFormat,
+  name: string
+): void {
+  const content =
+    format === "markdown" ? toMarkdown(columns) : format === "json" ? toJson(columns) : toHtml(columns);
+  const { ext, type } = FORMAT_FILES[format];
+  downloadFile(`${fileSlug(name)}.${ext}`, content, type);
+}
+
+/** Save text as a file through the browser */
+export function downloadFile(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** File-name-safe version of a column name */
+export function fileSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "deck";
+}
@@ -0,0 +1,60 @@
+/**
+ * Column forks.
+ *
+ * A fork is a new column whose fresh gateway session starts from another
+ * column's transcript. The deck copies the messages into the new column and
+ * injects a plain-text transcript into the session so the agent has the same
+ * context; that seed message is hidden again when history is loaded. Answer
+ * versions seed their fresh sessions the same way (see lib/versions.ts).
+ */
+
+import type { ChatMessage } from "../types";
+import { makeId } from "./ids";
+
+/** First line of the injected seed; marks it for parseHistoryMessages */
+export const FORK_SEED_HEADER = "[Forked conversation]";
+
+export function isForkSeed(text: string): boolean {
+  return text.trimStart().startsWith(FORK_SEED_HEADER);
+}
+
+/** Copies of the messages a fork starts with, detached from the source runs */
+export function seedMessages(messages: ChatMessage[]): ChatMessage[] {
+  return messages
+    .filter((m) => !m.pending && !m.streaming && m.role !== "error")
+    .map(({ runId: _runId, versionGroup: _group, resent: _resent, ...m }) => ({
+      ...m,
+      id: makeId(),
+      seeded: true,
+    }));
+}
+
+/** Plain-text transcript injected into the fork's session */
+export function buildForkSeed(sourceName: string, messages: ChatMessage[]): string {
+  return buildSeed(
+    `This session continues a conversation forked from "${sourceName}". The transcript so far:`,
+    messages
+  );
+}
+
+/** Plain-text transcript injected into the fresh session of an answer version */
+export function buildVersionSeed(messages: ChatMessage[]): string {
+  return buildSeed(
+    "This session continues the conversation below; its next message is the user's latest turn.",
+    messages
+  );
+}
+
+function buildSeed(intro: string, messages: ChatMessage[]): string {
+  const lines = [FORK_SEED_HEADER, intro, ""];
+  for (const msg of messages) {
+    if (msg.toolUse) {
+      lines.push(`[tool call: ${msg.toolUse.name}]`);
+    } else if (msg.role === "user") {
+      lines.push(`User: ${msg.text}`);
+    } else if (msg.role === "assistant" || msg.role === "announcement") {
+      lines.push(`Assistant: ${msg.text}`);
+    }
+  }
+  return lines.join("\n");
+}
@@ -4,8 +4,9 @@
  * Connects to the OpenClaw Gateway control plane and provides:
  * - Auto-reconnection with exponential backoff
  * - Request/response correlation via message IDs
- * - Event stream subscription
+ * - Event stream subscription with seq/stateVersion gap detection
  * - Agent turn execution with streaming
+ * - Persistent outbox for agent turns queued while offline
  *
  * Protocol reference: https://docs.openclaw.ai/concepts/architecture
  *
@@ -16,13 +17,20 @@
  */
 
 import type {
+  GatewayAgentInfo,
   GatewayFrame,
+  GatewaySessionInfo,
   GatewayResponse,
   GatewayEvent,
+  OutboxEvent,
+  OutboxItem,
+  SequenceGap,
 } from "../types";
 
 type EventHandler = (event: GatewayEvent) => void;
 type ConnectionHandler = (connected: boolean) => void;
+type OutboxHandler = (event: OutboxEvent) => void;
+type GapHandler = (gap: SequenceGap) => void;
 
 interface PendingRequest {
   resolve: (res: GatewayResponse) => void;
@@ -37,6 +45,12 @@ interface GatewayClientOptions {
   onEvent?: EventHandler;
   /** Called when connection state changes */
   onConnection?: ConnectionHandler;
+  /** Called as queued agent turns are replayed after a handshake */
+  onOutbox?: OutboxHandler;
+  /** Checked before each queued turn is replayed; an error fails it instead */
+  beforeReplay?: (item: OutboxItem) => Error | null;
+  /** Called when seq/stateVersion show that events were missed */
+  onGap?: GapHandler;
   /** Max reconnection attempts (default: Infinity) */
   maxReconnectAttempts?: number;
   /** Base reconnect delay in ms (default: 1000) */
@@ -54,6 +68,23 @@ interface DeviceIdentityRecord {
 const OPERATOR_SCOPES = ["operator.read", "operator.write"];
 const DEVICE_IDENTITY_STORAGE_KEY = "openclaw.deck.deviceIdentity.v1";
 
+/** A request the gateway answered with ok:false */
+export class GatewayRequestError extends Error {
+  readonly code: string;
+  readonly details?: unknown;
+
+  constructor(method: string, error?: GatewayResponse["error"]) {
+    super(error?.message ?? `Request ${method} failed`);
+    this.name = "GatewayRequestError";
+    this.code = error?.code ?? "UNKNOWN";
+    this.details = error?.details;
+  }
+}
+
+function makeIdempotencyKey(prefix: string): string {
+  return `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
 export class GatewayClient {
   private ws: WebSocket | null = null;
   private options: Required<GatewayClientOptions>;
@@ -63,6 +94,13 @@ export class GatewayClient {
   private intentionalClose = false;
   private _connected = false;
   private msgCounter = 0;
+  private outbox: OutboxItem[];
+  private flushing = false;
+  /** Outbox item whose replay request is on the wire (cannot be edited or cancelled) */
+  private inFlightId: string | null = null;
+  /** Last event seq / stateVersion seen on the current socket */
+  private lastSeq: number | null = null;
+  private lastStateVersion: number | null = null;
 
   constructor(opts: GatewayClientOptions) {
     this.options = {
@@ -70,16 +108,30 @@ export class GatewayClient {
       token: opts.token ?? "",
       onEvent: opts.onEvent ?? (() => {}),
       onConnection: opts.onConnection ?? (() => {}),
+      onOutbox: opts.onOutbox ?? (() => {}),
+      beforeReplay: opts.beforeReplay ?? (() => null),
+      onGap: opts.onGap ?? (() => {}),
       maxReconnectAttempts: opts.maxReconnectAttempts ?? Infinity,
       reconnectBaseDelay: opts.reconnectBaseDelay ?? 1000,
       requestTimeout: opts.requestTimeout ?? 30_000,
     };
+    this.outbox = this.loadOutbox();
   }
 
   get connected() {
     return this._connected;
   }
 
+  /** Agent turns waiting for the next successful handshake, oldest first */
+  get queued(): OutboxItem[] {
+    return [...this.outbox];
+  }
+
+  /** Id of the outbox item being replayed right now, if any */
+  get replayingId(): string | null {
+    return this.inFlightId;
+  }
+
   /** Open the WebSocket connection and perform the handshake */
   connect(): void {
     this.intentionalClose = false;
@@ -98,7 +150,8 @@ export class GatewayClient {
 
   /**
    * Send a request and await the correlated response.
-   * Rejects if the gateway returns ok:false or on timeout.
+   * Rejects with GatewayRequestError if the gateway returns ok:false,
+   * or with a plain Error on timeout / disconnect.
    */
   async request(
     method: string,
@@ -123,9 +176,7 @@ export class GatewayClient {
           if (res.ok) {
             resolve(res.payload);
           } else {
-            reject(
-              new Error(res.error?.message ?? `Request ${method} failed`)
-            );
+            reject(new GatewayRequestError(method, res.error));
           }
         },
         reject: (err) => {
@@ -147,12 +198,9 @@ export class GatewayClient {
   async runAgent(
     agentId: string,
     message: string,
-    sessionKey?: string
+    sessionKey?: string,
+    idempotencyKey: string = makeIdempotencyKey("agent")
   ): Promise<{ runId: string; status: string }> {
-    const idempotencyKey = `agent-${Date.now()}-${Math.random()
-      .toString(36)
-      .slice(2, 8)}`;
-
     const result = await this.request("agent", {
       agentId,
       message,
@@ -163,6 +211,29 @@ export class GatewayClient {
     return result as { runId: string; status: string };
   }
 
+  /**
+   * Abort an in-flight agent run. Without a runId the gateway aborts
+   * whatever is currently running in the session.
+   */
+  async abortRun(sessionKey: string, runId?: string): Promise<unknown> {
+    return this.request("chat.abort", {
+      sessionKey,
+      ...(runId ? { runId } : {}),
+    });
+  }
+
+  /**
+   * Append a message to a session transcript without starting a run; the
+   * agent sees it as context on its next turn.
+   */
+  async injectMessage(sessionKey: string, message: string, label?: string): Promise<unknown> {
+    return this.request("chat.inject", {
+      sessionKey,
+      message,
+      ...(label ? { label } : {}),
+    });
+  }
+
   /**
    * Send a message to a channel via the gateway.
    */
@@ -171,9 +242,7 @@ export class GatewayClient {
     peerId: string,
     text: string
   ): Promise<unknown> {
-    const idempotencyKey = `send-${Date.now()}-${Math.random()
-      .toString(36)
-      .slice(2, 8)}`;
+    const idempotencyKey = makeIdempotencyKey("send");
 
     return this.request("send", {
       channel,
@@ -183,9 +252,80 @@ export class GatewayClient {
     });
   }
 
-  /** Fetch chat history for a session */
-  async chatHistory(sessionKey: string, limit?: number): Promise<unknown> {
-    return this.request("chat.history", { sessionKey, limit: limit ?? 50 });
+  /**
+   * Queue an agent turn for replay after the next handshake. The queue is
+   * persisted per gateway URL, so it survives page reloads.
+   */
+  queueAgentRun(params: {
+    columnId: string;
+    agentId: string;
+    sessionKey: string;
+    message: string;
+  }): OutboxItem {
+    const item: OutboxItem = {
+      ...params,
+      id: makeIdempotencyKey("outbox"),
+      idempotencyKey: makeIdempotencyKey("agent"),
+      queuedAt: Date.now(),
+    };
+    this.outbox.push(item);
+    this.saveOutbox();
+
+    if (this._connected) {
+      void this.flushOutbox();
+    }
+    return item;
+  }
+
+  /** Replace the text of a queued turn. Returns false once it is being sent. */
+  editQueued(id: string, message: string): boolean {
+    const item = this.outbox.find((i) => i.id === id);
+    if (!item || id === this.inFlightId) return false;
+    item.message = message;
+    this.saveOutbox();
+    return true;
+  }
+
+  /** Drop a queued turn. Returns false once it is being sent. */
+  cancelQueued(id: string): boolean {
+    if (id === this.inFlightId || !this.outbox.some((i) => i.id === id)) {
+      return false;
+    }
+    this.outbox = this.outbox.filter((i) => i.id !== id);
+    this.saveOutbox();
+    return true;
+  }
+
+  /**
+   * Fetch chat history for a session: the latest `limit` messages, or the
+   * page before `cursor` when the gateway handed one out.
+   */
+  async chatHistory(
+    sessionKey: string,
+    limit?: number,
+    cursor?: string
+  ): Promise<unknown> {
+    return this.request("chat.history", {
+      sessionKey,
+      limit: limit ?? 50,
+      ...(cursor ? { before: cursor } : {}),
+    });
+  }
+
+  /** Ask the gateway to compact a session's context now */
+  async compactSession(sessionKey: string): Promise<unknown> {
+    return this.request("sessions.compact", { key: sessionKey });
+  }
+
+  /** List known sessions, most recently updated first */
+  async listSessions(params?: {
+    agentId?: string;
+    limit?: number;
+  }): Promise<GatewaySessionInfo[]> {
+    const res = (await this.request("sessions.list", params ?? {})) as {
+      sessions?: GatewaySessionInfo[];
+    };
+    return res?.sessions ?? [];
   }
 
   /** Get current gateway health */
@@ -193,6 +333,15 @@ export class GatewayClient {
     return this.request("health");
   }
 
+  /** List the agents configured on the gateway */
+  async listAgents(): Promise<{ defaultId?: string; agents: GatewayAgentInfo[] }> {
+    const res = (await this.request("agents.list")) as {
+      defaultId?: string;
+      agents?: GatewayAgentInfo[];
+    };
+    return { defaultId: res?.defaultId, agents: res?.agents ?? [] };
+  }
+
   /** Create an agent on the gateway */
   async createAgent(params: {
     id: string;
@@ -200,6 +349,7 @@ export class GatewayClient {
     model?: string;
     context?: string;
     shell?: string;
+    workspace?: string;
   }): Promise<unknown> {
     return this.request("agents.create", params);
   }
@@ -211,6 +361,7 @@ export class GatewayClient {
     model?: string;
     context?: string;
     shell?: string;
+    workspace?: string;
   }): Promise<unknown> {
     return this.request("agents.update", params);
   }
@@ -231,6 +382,10 @@ export class GatewayClient {
       return;
     }
 
+    // Sequence numbers are scoped to a connection
+    this.lastSeq = null;
+    this.lastStateVersion = null;
+
     this.ws.onopen = async () => {
       console.log("[GatewayClient] Socket opened, sending handshake...");
       try {
@@ -267,6 +422,8 @@ export class GatewayClient {
         this.reconnectAttempts = 0;
         this.options.onConnection(true);
         console.log("[GatewayClient] Connected to gateway");
+
+        void this.flushOutbox();
       } catch (err) {
         console.error("[GatewayClient] Handshake failed:", err);
         this.ws?.close(4001, "handshake failed");
@@ -309,6 +466,89 @@ export class GatewayClient {
     };
   }
 
+  /**
+   * Replay queued turns one at a time, in order. Each replay reuses the
+   * item's idempotencyKey, so a turn the gateway already accepted before a
+   * dropped ack is never started twice.
+   */
+  private async flushOutbox() {
+    if (this.flushing) return;
+    this.flushing = true;
+
+    try {
+      while (this._connected && this.outbox.length > 0) {
+        const item = this.outbox[0];
+        const refused = this.options.beforeReplay(item);
+        if (refused) {
+          this.removeFromOutbox(item.id);
+          this.options.onOutbox({ type: "failed", item, error: refused });
+          continue;
+        }
+        this.inFlightId = item.id;
+        this.options.onOutbox({ type: "replaying", item });
+
+        try {
+          const { runId } = await this.runAgent(
+            item.agentId,
+            item.message,
+            item.sessionKey,
+            item.idempotencyKey
+          );
+          this.removeFromOutbox(item.id);
+          this.options.onOutbox({ type: "sent", item, runId });
+        } catch (err) {
+          // Connection dropped mid-replay: keep the item for the next handshake
+          if (!this._connected) break;
+          this.removeFromOutbox(item.id);
+          this.options.onOutbox({
+            type: "failed",
+            item,
+            error: err instanceof Error ? err : new Error(String(err)),
+          });
+        }
+      }
+    } finally {
+      this.inFlightId = null;
+      this.flushing = false;
+    }
+  }
+
+  private removeFromOutbox(id: string) {
+    this.outbox = this.outbox.filter((i) => i.id !== id);
+    this.saveOutbox();
+  }
+
+  private getOutboxStorageKey(): string {
+    return `openclaw.deck.outbox.v1:${this.options.url}`;
+  }
+
+  private loadOutbox(): OutboxItem[] {
+    try {
+      const raw = localStorage.getItem(this.getOutboxStorageKey());
+      const parsed = raw ? (JSON.parse(raw) as OutboxItem[]) : [];
+      return Array.isArray(parsed)
+        ? parsed.filter((i) => i?.id && i?.idempotencyKey && i?.columnId)
+        : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private saveOutbox(): void {
+    try {
+      if (this.outbox.length > 0) {
+        localStorage.setItem(
+          this.getOutboxStorageKey(),
+          JSON.stringify(this.outbox)
+        );
+      } else {
+        localStorage.removeItem(this.getOutboxStorageKey());
+      }
+    } catch {
+      // ignore persistence failures
+    }
+  }
+
   private handleFrame(frame: GatewayFrame) {
     switch (frame.type) {
       case "res": {
@@ -319,7 +559,12 @@ export class GatewayClient {
         break;
       }
       case "event": {
+        const gap = this.checkSequence(frame);
         this.options.onEvent(frame);
+        if (gap) {
+          console.warn("[GatewayClient] Missed events:", gap);
+          this.options.onGap(gap);
+        }
         break;
       }
       default:
@@ -327,6 +572,41 @@ export class GatewayClient {
     }
   }
 
+  /**
+   * Track seq/stateVersion for the current connection. A jump in seq means
+   * frames were dropped; a stateVersion going backwards means the gateway's
+   * state was reset underneath us.
+   */
+  private checkSequence(frame: GatewayEvent): SequenceGap | null {
+    let gap: SequenceGap | null = null;
+
+    if (typeof frame.seq === "number") {
+      if (this.lastSeq !== null && frame.seq > this.lastSeq + 1) {
+        gap = { kind: "seq", expected: this.lastSeq + 1, received: frame.seq };
+      }
+      if (this.lastSeq === null || frame.seq > this.lastSeq) {
+        this.lastSeq = frame.seq;
+      }
+    }
+
+    if (typeof frame.stateVersion === "number") {
+      if (
+        !gap &&
+        this.lastStateVersion !== null &&
+        frame.stateVersion < this.lastStateVersion
+      ) {
+        gap = {
+          kind: "stateVersion",
+          previous: this.lastStateVersion,
+          received: frame.stateVersion,
+        };
+      }
+      this.lastStateVersion = frame.stateVersion;
+    }
+
+    return gap;
+  }
+
   private send(frame: GatewayFrame) {
     if (this.ws?.readyState === WebSocket.OPEN) {
       this.ws.send(JSON.stringify(frame));
@@ -1,36 +1,23 @@
-import type { AgentConfig } from "../types";
+import type { AgentConfig, GatewayAgentInfo } from "../types";
+import { buildModel, modelsFromConfig, type ModelInfo } from "./models";
 
 const ENV_DEFAULT_MODEL = (import.meta.env.VITE_DEFAULT_MODEL as string | undefined)?.trim();
 
 // Fallback model if gateway fetch fails
 export const FALLBACK_MODEL = ENV_DEFAULT_MODEL || "anthropic/claude-opus-4-6";
 
-// Fallback models list for AddAgentModal
-export const FALLBACK_MODELS = [
-  { id: "anthropic/claude-opus-4-6", name: "Opus 4.6" },
-  { id: "anthropic/claude-sonnet-4-5", name: "Sonnet 4.5" },
-  { id: "moonshot/kimi-k2.5", name: "Kimi K2.5" },
-  { id: "kimi-coding/k2p5", name: "Kimi K2.5 (Coding)" },
+// Fallback model registry if the gateway config can't be fetched
+export const FALLBACK_MODELS: ModelInfo[] = [
+  buildModel("anthropic/claude-opus-4-6", { name: "Opus 4.6" }),
+  buildModel("anthropic/claude-sonnet-4-5", { name: "Sonnet 4.5" }),
+  buildModel("moonshot/kimi-k2.5", { name: "Kimi K2.5" }),
+  buildModel("kimi-coding/k2p5", { name: "Kimi K2.5 (Coding)" }),
 ];
 
 export interface GatewayInfo {
   defaultModel: string;
-  availableModels: Array<{ id: string; name: string }>;
-}
-
-function normalizeModelMap(config: any): Array<{ id: string; name: string }> {
-  const models =
-    config?.agents?.defaults?.models ||
-    config?.agents?.models ||
-    config?.models ||
-    {};
-
-  if (!models || typeof models !== "object") return [];
-
-  return Object.entries(models).map(([id, info]: [string, any]) => ({
-    id,
-    name: info?.alias || info?.name || id.split("/").pop() || id,
-  }));
+  /** Model registry (see lib/models.ts) */
+  availableModels: ModelInfo[];
 }
 
 async function fetchConfigJson(url: string, headers: Record<string, string>) {
@@ -67,7 +54,7 @@ export async function fetchGatewayConfig(
       config = await fetchConfigJson("/api/config", headers);
     }
 
-    const modelList = normalizeModelMap(config);
+    const modelList = modelsFromConfig(config);
     const defaultModel =
       config?.agents?.defaults?.model?.primary ||
       config?.agents?.defaults?.model ||
@@ -87,6 +74,21 @@ export async function fetchGatewayConfig(
   }
 }
 
+const AGENT_ACCENTS = [
+  "#22d3ee",
+  "#a78bfa",
+  "#34d399",
+  "#f59e0b",
+  "#f472b6",
+  "#60a5fa",
+  "#facc15",
+  "#fb7185",
+  "#4ade80",
+  "#c084fc",
+  "#f97316",
+  "#2dd4bf",
+];
+
 /**
  * Build default agents with dynamic model from gateway config.
  */
@@ -94,21 +96,6 @@ export function buildDefaultAgents(
   count: number,
   defaultModel: string = FALLBACK_MODEL
 ): AgentConfig[] {
-  const AGENT_ACCENTS = [
-    "#22d3ee",
-    "#a78bfa",
-    "#34d399",
-    "#f59e0b",
-    "#f472b6",
-    "#60a5fa",
-    "#facc15",
-    "#fb7185",
-    "#4ade80",
-    "#c084fc",
-    "#f97316",
-    "#2dd4bf",
-  ];
-
   return Array.from({ length: count }, (_, i) => {
     const agentId = i === 0 ? "main" : `agent-${i + 1}`;
     const agentName = i === 0 ? "Main" : `Agent ${i + 1}`;
@@ -123,3 +110,30 @@ export function buildDefaultAgents(
     };
   });
 }
+
+/**
+ * Build a column config for an agent reported by agents.list. Gateway-owned
+ * fields come from the gateway; deck-only fields (icon, accent, budget) are
+ * kept from `existing` when the column already exists.
+ */
+export function buildAgentFromGateway(
+  info: GatewayAgentInfo,
+  index: number,
+  existing?: AgentConfig,
+  defaultModel: string = FALLBACK_MODEL
+): AgentConfig {
+  const name = info.name || info.identity?.name || existing?.name || info.id;
+
+  return {
+    id: info.id,
+    name,
+    icon: existing?.icon || info.identity?.emoji || name[0]?.toUpperCase() || "?",
+    accent: existing?.accent || AGENT_ACCENTS[index % AGENT_ACCENTS.length],
+    context: info.context ?? existing?.context ?? "",
+    model: info.model ?? existing?.model ?? defaultModel,
+    workspace: info.workspace ?? existing?.workspace,
+    shell: info.shell ?? existing?.shell,
+    ...(existing?.forkedFrom ? { forkedFrom: existing.forkedFrom } : {}),
+    ...(existing?.budget ? { budget: existing.budget } : {}),
+  };
+}
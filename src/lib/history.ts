@@ -0,0 +1,426 @@
+import type { ChatMessage, HistoryPaging } from "../types";
+import { makeId } from "./ids";
+import { isForkSeed } from "./fork";
+
+/** Messages fetched per chat.history page */
+export const HISTORY_PAGE_SIZE = 50;
+
+/** Tool results longer than this are cut before they are stored */
+export const MAX_TOOL_RESULT_CHARS = 20_000;
+
+/** Content part of a raw history message (text, tool call or tool result) */
+export interface RawContentPart {
+  type?: string;
+  text?: string;
+  /** toolCall / tool_use parts */
+  id?: string;
+  name?: string;
+  arguments?: unknown;
+  input?: unknown;
+  /** tool_result parts */
+  tool_use_id?: string;
+  content?: unknown;
+  is_error?: boolean;
+  /** thinking parts */
+  thinking?: string;
+}
+
+/** Raw message shape returned by the gateway's chat.history */
+export interface RawHistoryMessage {
+  role?: string;
+  content?: RawContentPart[] | string;
+  timestamp?: number;
+  /** Set on tool result messages */
+  toolCallId?: string;
+  toolName?: string;
+  isError?: boolean;
+  __openclaw?: { kind?: string };
+}
+
+/** chat.history response; cursor fields are only sent by gateways that page */
+export interface ChatHistoryResponse {
+  messages?: RawHistoryMessage[];
+  nextCursor?: string | null;
+  hasMore?: boolean;
+}
+
+/** Paging state after fetching `requested` messages and getting `res` back */
+export function pagingFrom(
+  res: ChatHistoryResponse | undefined,
+  requested: number,
+  fetchedBefore: number
+): HistoryPaging {
+  const count = res?.messages?.length ?? 0;
+  return {
+    cursor: res?.nextCursor ?? null,
+    fetched: fetchedBefore + count,
+    exhausted: res?.hasMore !== undefined ? !res.hasMore : count < requested,
+    loading: false,
+  };
+}
+
+/** Flatten a tool result (string, content parts or JSON) into capped text */
+export function toolResultText(result: unknown): string {
+  let text: string;
+  if (typeof result === "string") {
+    text = result;
+  } else if (Array.isArray(result)) {
+    text = (result as RawContentPart[])
+      .map((p) => (typeof p === "string" ? p : (p?.text ?? "")))
+      .join("");
+  } else if (
+    result &&
+    typeof result === "object" &&
+    Array.isArray((result as { content?: unknown }).content)
+  ) {
+    text = toolResultText((result as { content: unknown }).content);
+  } else if (result === undefined || result === null) {
+    text = "";
+  } else {
+    text = JSON.stringify(result, null, 2);
+  }
+
+  return text.length > MAX_TOOL_RESULT_CHARS
+    ? `${text.slice(0, MAX_TOOL_RESULT_CHARS)}\n… (truncated)`
+    : text;
+}
+
+function isNoise(text: string): boolean {
+  return (
+    !text.trim() || /HEARTBEAT_OK|heartbeat|NO_REPLY/i.test(text) || isForkSeed(text)
+  );
+}
+
+/** Attach a tool result to the invocation it answers (searching backwards) */
+function applyToolResult(
+  result: ChatMessage[],
+  callId: string | undefined,
+  output: unknown,
+  isError: boolean,
+  timestamp?: number
+) {
+  for (let i = result.length - 1; i >= 0; i--) {
+    const tool = result[i].toolUse;
+    if (!tool || (callId ? tool.id !== callId : tool.status !== "running")) continue;
+    result[i] = {
+      ...result[i],
+      toolUse: {
+        ...tool,
+        status: isError ? "error" : "done",
+        result: toolResultText(output),
+        durationMs:
+          timestamp !== undefined ? Math.max(0, timestamp - result[i].timestamp) : undefined,
+      },
+    };
+    return;
+  }
+}
+
+/** Parsed messages whose timestamp is the parse time; the gateway sent none */
+const undated = new WeakSet<ChatMessage>();
+
+/**
+ * Convert raw gateway chat.history messages into ChatMessage[].
+ * Tool calls inside assistant messages become their own "tool" messages, in
+ * content order; tool result messages fill in the call they answer. Thinking
+ * parts become the reasoning of the text that follows them.
+ */
+export function parseHistoryMessages(raw?: RawHistoryMessage[]): ChatMessage[] {
+  if (!Array.isArray(raw)) return [];
+
+  const result: ChatMessage[] = [];
+  const undatedIds = new Set<string>();
+  for (const msg of raw) {
+    const role = msg.role;
+    if (!role) continue;
+    const timestamp = msg.timestamp ?? Date.now();
+    const push = (message: ChatMessage) => {
+      if (msg.timestamp === undefined) undatedIds.add(message.id);
+      result.push(message);
+    };
+
+    // Skip compaction markers and legacy function messages
+    if (msg.__openclaw?.kind === "compaction") continue;
+    if (role === "function") continue;
+
+    // Tool results complete an earlier tool call
+    if (role === "tool" || role === "toolresult" || role === "toolResult") {
+      applyToolResult(result, msg.toolCallId, msg.content, !!msg.isError, msg.timestamp);
+      continue;
+    }
+
+    // Map role to ChatMessage role
+    let chatRole: ChatMessage["role"];
+    if (role === "user") {
+      chatRole = "user";
+    } else if (role === "assistant") {
+      chatRole = "assistant";
+    } else if (role === "system") {
+      chatRole = "announcement";
+    } else {
+      continue;
+    }
+
+    let reasoning = "";
+    const pushText = (text: string, final = false) => {
+      // Skip empty, heartbeat, and NO_REPLY messages — unless a turn that
+      // only reasoned would otherwise lose its reasoning
+      if (isNoise(text) && !(final && reasoning && !text.trim())) return;
+      push({
+        id: makeId(),
+        role: chatRole,
+        text,
+        timestamp,
+        announcement: chatRole === "announcement",
+        ...(reasoning ? { reasoning } : {}),
+      });
+      reasoning = "";
+    };
+
+    if (!Array.isArray(msg.content)) {
+      pushText(typeof msg.content === "string" ? msg.content : "");
+      continue;
+    }
+
+    // Walk content parts in order so tool calls land between the text around them
+    let text = "";
+    for (const part of msg.content) {
+      if (part.type === "text" && part.text) {
+        text += part.text;
+      } else if (part.type === "thinking" || part.type === "reasoning") {
+        reasoning += part.thinking ?? part.text ?? "";
+      } else if (part.type === "toolCall" || part.type === "tool_use") {
+        pushText(text);
+        text = "";
+        push({
+          id: makeId(),
+          role: "tool",
+          text: "",
+          timestamp,
+          toolUse: {
+            id: part.id,
+            name: part.name ?? "tool",
+            status: "running",
+            args: part.arguments ?? part.input,
+          },
+        });
+      } else if (part.type === "tool_result") {
+        applyToolResult(result, part.tool_use_id, part.content, !!part.is_error, msg.timestamp);
+      }
+    }
+    pushText(text, true);
+  }
+
+  // Calls that never got a result in this page are finished, just unknown
+  const parsed = result.map((m) =>
+    m.toolUse?.status === "running"
+      ? { ...m, toolUse: { ...m.toolUse, status: "done" as const } }
+      : m
+  );
+  for (const m of parsed) if (undatedIds.has(m.id)) undated.add(m);
+  return parsed;
+}
+
+// ─── Reconciliation ───
+
+/** Messages only the deck knows about; they are never replaced by history */
+function isLocalOnly(msg: ChatMessage): boolean {
+  return (
+    !!msg.pending ||
+    !!msg.seeded ||
+    msg.role === "compaction" ||
+    msg.role === "error"
+  );
+}
+
+/** Identity used to line up local and gateway copies of the same message */
+function matchKey(msg: ChatMessage): string {
+  if (msg.role === "tool") {
+    return `tool\u0000${msg.toolUse?.id ?? msg.toolUse?.name ?? ""}`;
+  }
+  const side = msg.role === "user" ? "user" : "agent";
+  return `${side}\u0000${msg.text.trim()}`;
+}
+
+/** Agent prose (as opposed to user turns, tool calls and local markers) */
+function isAnswer(msg: ChatMessage): boolean {
+  return msg.role === "assistant" || msg.role === "announcement";
+}
+
+/** How far apart the deck's and the gateway's timestamps for one message may be */
+const MATCH_WINDOW_MS = 10 * 60_000;
+
+/**
+ * Local copy of a gateway message, at or after `from`; -1 when it is new.
+ * Repeated texts ("ok", "done") have several candidates: the one closest in
+ * time wins, and nothing further apart than MATCH_WINDOW_MS matches. Only
+ * when the gateway left the timestamp out is the candidate closest to where
+ * the message is expected taken instead.
+ */
+function findMatch(
+  local: ChatMessage[],
+  from: number,
+  target: ChatMessage,
+  expected: number
+): number {
+  const key = matchKey(target);
+  const byPosition = undated.has(target);
+  let best = -1;
+  let bestScore = Infinity;
+  for (let i = from; i < local.length; i++) {
+    if (isLocalOnly(local[i]) || matchKey(local[i]) !== key) continue;
+    const score = byPosition
+      ? Math.abs(i - expected)
+      : Math.abs(local[i].timestamp - target.timestamp);
+    if (!byPosition && score > MATCH_WINDOW_MS) continue;
+    if (score < bestScore) {
+      best = i;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * Gateway messages from before the first shared anchor: the cached transcript
+ * may reach further back than the page, so nothing can be paired there. They
+ * are placed among the local messages by time and replace nothing.
+ */
+function interleave(local: ChatMessage[], remote: ChatMessage[]): ChatMessage[] {
+  const result: ChatMessage[] = [];
+  let i = 0;
+  for (const msg of remote) {
+    while (i < local.length && local[i].timestamp <= msg.timestamp) result.push(local[i++]);
+    result.push(msg);
+  }
+  return [...result, ...local.slice(i)];
+}
+
+/**
+ * Reconcile the local messages and gateway messages that fall between two
+ * shared anchors (or after the last one). Local agent messages are paired in order with the gateway's
+ * agent messages and take their (complete) text, which repairs streams that
+ * lost deltas or never saw their final event. Gateway messages without a
+ * local counterpart are inserted in gateway order.
+ */
+function reconcileSegment(
+  local: ChatMessage[],
+  remote: ChatMessage[]
+): ChatMessage[] {
+  // remote message -> index of the local message it replaces
+  const pairs = new Map<ChatMessage, number>();
+  let next = 0;
+  for (const msg of remote) {
+    if (!isAnswer(msg)) continue;
+    while (
+      next < local.length &&
+      (isLocalOnly(local[next]) || !isAnswer(local[next]))
+    ) {
+      next++;
+    }
+    if (next >= local.length) break;
+    pairs.set(msg, next++);
+  }
+
+  const result: ChatMessage[] = [];
+  let emitted = 0;
+  for (const msg of remote) {
+    const index = pairs.get(msg);
+    if (index === undefined) {
+      result.push(msg);
+      continue;
+    }
+    while (emitted < index) result.push(local[emitted++]);
+    result.push({
+      ...local[index],
+      text: msg.text,
+      reasoning: msg.reasoning ?? local[index].reasoning,
+      streaming: false,
+    });
+    emitted = index + 1;
+  }
+  while (emitted < local.length) result.push(local[emitted++]);
+
+  return result;
+}
+
+/**
+ * Merge a gateway chat.history page into a column's transcript.
+ *
+ * The gateway transcript is authoritative: messages it has that the column
+ * missed are inserted in order, and truncated local answers are replaced.
+ * Local-only entries (queued prompts, compaction dividers, run errors,
+ * messages copied in by a fork) and messages older than the fetched page are
+ * kept where they are; only messages after the first shared anchor are
+ * paired up and repaired. Matched messages keep their local ids, so React keys
+ * stay stable across resyncs.
+ */
+export function mergeHistory(
+  local: ChatMessage[],
+  remote: ChatMessage[]
+): ChatMessage[] {
+  const merged: ChatMessage[] = [];
+  let cursor = 0;
+  let anchored = false;
+  let unmatched: ChatMessage[] = [];
+
+  const flushSegment = (end: number) => {
+    const segment = local.slice(cursor, end);
+    merged.push(
+      ...(anchored ? reconcileSegment(segment, unmatched) : interleave(segment, unmatched))
+    );
+    unmatched = [];
+  };
+
+  // The page is the newest part of the session, so it lines up with the tail
+  const offset = local.length - remote.length;
+  for (const [r, msg] of remote.entries()) {
+    const index = findMatch(local, cursor, msg, offset + r);
+    if (index === -1) {
+      unmatched.push(msg);
+      continue;
+    }
+    flushSegment(index);
+    // A tool call we saw start may have finished while events were missed,
+    // and reasoning may have been streamed before the deck was watching
+    let kept = local[index];
+    if (kept.toolUse?.status === "running" && msg.toolUse?.status !== "running") {
+      kept = { ...kept, toolUse: { ...kept.toolUse, ...msg.toolUse! } };
+    }
+    if (msg.reasoning && !kept.reasoning) {
+      kept = { ...kept, reasoning: msg.reasoning };
+    }
+    merged.push(kept);
+    cursor = index + 1;
+    anchored = true;
+  }
+  flushSegment(local.length);
+
+  return merged;
+}
+
+/**
+ * Prepend an older history page. Pages can overlap what is already loaded —
+ * offset paging drifts when new messages arrive, and a cached transcript may
+ * reach further back than the pages fetched so far — so the page is cut where
+ * it runs into the first loaded message, or dropped if it lies inside it.
+ */
+export function prependHistory(
+  local: ChatMessage[],
+  older: ChatMessage[]
+): ChatMessage[] {
+  const loaded = local.filter((m) => !isLocalOnly(m));
+  if (loaded.length === 0 || older.length === 0) return [...older, ...local];
+
+  const firstKey = matchKey(loaded[0]);
+  for (let i = older.length - 1; i >= 0; i--) {
+    if (matchKey(older[i]) === firstKey) {
+      return [...older.slice(0, i), ...local];
+    }
+  }
+
+  const lastKey = matchKey(older[older.length - 1]);
+  if (loaded.some((m) => matchKey(m) === lastKey)) return local;
+
+  return [...older, ...local];
+}
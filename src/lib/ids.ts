@@ -0,0 +1,4 @@
+/** Short, sortable-enough unique id for locally created records */
+export function makeId(): string {
+  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
@@ -0,0 +1,186 @@
+/**
+ * Model registry.
+ *
+ * Built from the gateway config (see fetchGatewayConfig): every model the
+ * agents may use, with its aliases, context window and pricing. Entries come
+ * from the agents' model map (`agents.defaults.models`) and, for details the
+ * map leaves out, from the provider catalogs (`models.providers`). Context
+ * windows the config doesn't state fall back to a per-family default;
+ * pricing is only known when the config lists it. Also home to the rough
+ * client-side token estimate used until the gateway reports real usage.
+ */
+
+import type { SessionUsage } from "../types";
+
+export interface ModelInfo {
+  /** Provider-qualified id, e.g. "anthropic/claude-opus-4-6" */
+  id: string;
+  name: string;
+  aliases: string[];
+  /** Context window in tokens */
+  contextWindow: number;
+  /** USD per million tokens, when the gateway config lists it */
+  pricing?: { input: number; output: number };
+}
+
+export const DEFAULT_CONTEXT_WINDOW = 200_000;
+
+/** Context windows by model family, for models the config doesn't describe */
+const FAMILY_CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/claude/i, 200_000],
+  [/gpt-4\.1/i, 1_047_576],
+  [/gpt-5/i, 400_000],
+  [/gpt-4o|gpt-4-turbo|o[134]-/i, 128_000],
+  [/gemini/i, 1_048_576],
+  [/kimi|k2/i, 262_144],
+  [/deepseek/i, 128_000],
+];
+
+function familyContextWindow(id: string): number {
+  return FAMILY_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(id))?.[1] ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+function positive(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+type ConfigObject = Record<string, unknown>;
+
+function isRecord(value: unknown): value is ConfigObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Model details as written in a config entry; missing fields stay undefined */
+function detailsOf(entry: unknown): Partial<ModelInfo> {
+  const e = isRecord(entry) ? entry : {};
+  const cost = isRecord(e.cost) ? e.cost : isRecord(e.pricing) ? e.pricing : {};
+  const input = positive(cost.input);
+  const output = positive(cost.output);
+  const alias = e.alias ?? e.aliases;
+  return {
+    name: typeof e.name === "string" ? e.name : undefined,
+    aliases: (Array.isArray(alias) ? alias : [alias]).filter(
+      (a): a is string => typeof a === "string" && a.length > 0
+    ),
+    contextWindow: positive(e.contextWindow ?? e.context_window ?? e.contextTokens),
+    pricing: input !== undefined || output !== undefined
+      ? { input: input ?? 0, output: output ?? 0 }
+      : undefined,
+  };
+}
+
+/** Provider catalog entries keyed by provider-qualified id */
+function providerCatalog(config: ConfigObject): Map<string, Partial<ModelInfo>> {
+  const catalog = new Map<string, Partial<ModelInfo>>();
+  const providers = isRecord(config.models) ? config.models.providers : undefined;
+  if (!isRecord(providers)) return catalog;
+  for (const [provider, spec] of Object.entries(providers)) {
+    if (!isRecord(spec) || !Array.isArray(spec.models)) continue;
+    for (const model of spec.models) {
+      if (!isRecord(model) || typeof model.id !== "string") continue;
+      catalog.set(`${provider}/${model.id}`, detailsOf(model));
+    }
+  }
+  return catalog;
+}
+
+export function buildModel(id: string, ...sources: Array<Partial<ModelInfo> | undefined>): ModelInfo {
+  const pick = <K extends keyof ModelInfo>(key: K) =>
+    sources.find((s) => s?.[key] !== undefined)?.[key] as ModelInfo[K] | undefined;
+  const aliases = [...new Set(sources.flatMap((s) => s?.aliases ?? []))];
+  return {
+    id,
+    name: aliases[0] ?? pick("name") ?? id.split("/").pop() ?? id,
+    aliases,
+    contextWindow: pick("contextWindow") ?? familyContextWindow(id),
+    pricing: pick("pricing"),
+  };
+}
+
+/** Every model the gateway config offers, in config order */
+export function modelsFromConfig(config: unknown): ModelInfo[] {
+  const root = isRecord(config) ? config : {};
+  const catalog = providerCatalog(root);
+  const agents = isRecord(root.agents) ? root.agents : {};
+  const defaults = isRecord(agents.defaults) ? agents.defaults : {};
+  const map = [
+    defaults.models,
+    agents.models,
+    // Older configs keep the model map at the top level
+    isRecord(root.models) && !root.models.providers ? root.models : undefined,
+  ].find((m): m is ConfigObject => isRecord(m) && Object.keys(m).length > 0);
+
+  if (map) {
+    return Object.entries(map).map(([id, entry]) =>
+      buildModel(id, detailsOf(entry), catalog.get(id))
+    );
+  }
+  return [...catalog.entries()].map(([id, details]) => buildModel(id, details));
+}
+
+/** Find a model by id, alias or id without its provider prefix */
+export function resolveModel(models: ModelInfo[], idOrAlias?: string): ModelInfo | undefined {
+  if (!idOrAlias) return undefined;
+  const wanted = idOrAlias.toLowerCase();
+  return (
+    models.find((m) => m.id.toLowerCase() === wanted) ??
+    models.find((m) => m.aliases.some((a) => a.toLowerCase() === wanted)) ??
+    models.find((m) => m.id.split("/").pop()?.toLowerCase() === wanted)
+  );
+}
+
+export function contextWindowFor(models: ModelInfo[], model?: string): number {
+  if (!model) return DEFAULT_CONTEXT_WINDOW;
+  return resolveModel(models, model)?.contextWindow ?? familyContextWindow(model);
+}
+
+/** Cost of token counts at a model's list price; undefined without pricing */
+export function estimateCostCents(
+  model: ModelInfo | undefined,
+  inputTokens: number,
+  outputTokens: number
+): number | undefined {
+  if (!model?.pricing) return undefined;
+  const usd =
+    (inputTokens * model.pricing.input + outputTokens * model.pricing.output) / 1_000_000;
+  return usd * 100;
+}
+
+/** Usage with `costCents` estimated from pricing when the gateway left it out */
+export function withEstimatedCost(
+  usage: SessionUsage,
+  models: ModelInfo[],
+  fallbackModel?: string
+): SessionUsage {
+  if (usage.costCents !== undefined) return usage;
+  const costCents = estimateCostCents(
+    resolveModel(models, usage.model || fallbackModel),
+    usage.inputTokens ?? 0,
+    usage.outputTokens ?? 0
+  );
+  return costCents === undefined ? usage : { ...usage, costCents };
+}
+
+/** "200k" / "1M" */
+export function formatContextWindow(tokens: number): string {
+  return tokens >= 1_000_000
+    ? `${+(tokens / 1_000_000).toFixed(1)}M`
+    : `${Math.round(tokens / 1000)}k`;
+}
+
+// ─── Token estimates ───
+
+/**
+ * Rough token count for text, used until the gateway reports real usage.
+ * Approximates BPE tokenizers: a token per ~4 letters of a word, per ~3
+ * digits, and per punctuation mark.
+ */
+export function estimateTokens(text: string): number {
+  let tokens = 0;
+  for (const piece of text.match(/[\p{L}\p{M}]+|\d+|[^\s\p{L}\p{M}\d]/gu) ?? []) {
+    if (/^\d/.test(piece)) tokens += Math.ceil(piece.length / 3);
+    else if (/^[\p{L}\p{M}]/u.test(piece)) tokens += Math.ceil(piece.length / 4);
+    else tokens += 1;
+  }
+  return tokens;
+}
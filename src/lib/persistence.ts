@@ -0,0 +1,181 @@
+/**
+ * Deck state persistence.
+ *
+ * Saves the parts of the store that should survive a reload — agent configs,
+ * column order, theme, the reasoning toggle, pipelines, the deck budget and
+ * its overrides, each column's active session and a capped copy of its
+ * transcript — to localStorage, scoped per gateway URL. Imported (read-only)
+ * columns have no gateway to reload from, so their transcripts and usage are
+ * saved in full.
+ *
+ * Snapshots carry a schema version; older snapshots are upgraded step by step
+ * through MIGRATIONS on load. When storage is full, the transcript cache is
+ * cut down (and finally left out) so the configuration still gets saved; if
+ * even that fails, imported columns are left out as a last resort.
+ */
+
+import type { AgentConfig, Budget, ChatMessage, Pipeline, SessionUsage } from "../types";
+
+export const DECK_STATE_VERSION = 6;
+
+/** Messages kept per column; older history is re-fetched from the gateway */
+const MAX_CACHED_MESSAGES = 200;
+
+/** Smaller caches tried in turn when storage is full; 0 drops the cache */
+const FALLBACK_CACHE_SIZES = [50, 0];
+
+/**
+ * "trimmed": saved with a smaller transcript cache (or none);
+ * "importsDropped": saved without the imported columns
+ */
+export type SaveResult = "saved" | "trimmed" | "importsDropped" | "failed";
+
+export interface PersistedDeckState {
+  version: number;
+  savedAt: number;
+  agents: AgentConfig[];
+  columnOrder: string[];
+  theme: string;
+  /** Whether reasoning sections are shown in transcripts */
+  showReasoning: boolean;
+  pipelines: Pipeline[];
+  deckBudget: Budget | null;
+  /** Hard budget limits overridden, by scope, until the period key changes */
+  budgetOverrides: Record<string, string>;
+  /** Active gateway session key by agent id */
+  sessionKeys: Record<string, string>;
+  /** Cached transcripts by agent id */
+  transcripts: Record<string, ChatMessage[]>;
+  /** Usage of imported columns by agent id (the gateway reports the rest) */
+  importedUsage: Record<string, SessionUsage>;
+}
+
+export type DeckSnapshot = Omit<PersistedDeckState, "version" | "savedAt">;
+
+/**
+ * Upgrade steps keyed by the version they upgrade *from*. To change the
+ * schema: bump DECK_STATE_VERSION and add `[old]: (s) => newShape`.
+ */
+type RawState = Record<string, unknown>;
+
+const MIGRATIONS: Record<number, (state: RawState) => RawState> = {
+  // v2: columns remember which gateway session they show
+  1: (state) => ({ ...state, sessionKeys: {} }),
+  // v3: deck-wide reasoning toggle
+  2: (state) => ({ ...state, showReasoning: true }),
+  // v4: column pipelines
+  3: (state) => ({ ...state, pipelines: [] }),
+  // v5: deck-wide budget and budget overrides
+  4: (state) => ({ ...state, deckBudget: null, budgetOverrides: {} }),
+  // v6: usage of imported columns
+  5: (state) => ({ ...state, importedUsage: {} }),
+};
+
+function storageKey(gatewayUrl: string): string {
+  return `openclaw.deck.state:${gatewayUrl}`;
+}
+
+function isRecord(value: unknown): value is RawState {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function migrate(raw: unknown): PersistedDeckState | null {
+  if (!isRecord(raw)) return null;
+  let state = raw;
+  let version = typeof state.version === "number" ? state.version : 0;
+
+  while (version < DECK_STATE_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) return null; // no upgrade path — start fresh
+    state = step(state);
+    version += 1;
+  }
+
+  if (version > DECK_STATE_VERSION) return null; // written by a newer deck
+  if (!Array.isArray(state.agents)) return null;
+
+  return {
+    version,
+    savedAt: typeof state.savedAt === "number" ? state.savedAt : 0,
+    agents: state.agents as AgentConfig[],
+    columnOrder: Array.isArray(state.columnOrder) ? (state.columnOrder as string[]) : [],
+    theme: typeof state.theme === "string" ? state.theme : "midnight",
+    showReasoning: state.showReasoning !== false,
+    pipelines: Array.isArray(state.pipelines) ? (state.pipelines as Pipeline[]) : [],
+    deckBudget: isRecord(state.deckBudget) ? (state.deckBudget as unknown as Budget) : null,
+    budgetOverrides: isRecord(state.budgetOverrides)
+      ? (state.budgetOverrides as Record<string, string>)
+      : {},
+    sessionKeys: isRecord(state.sessionKeys)
+      ? (state.sessionKeys as Record<string, string>)
+      : {},
+    transcripts: isRecord(state.transcripts)
+      ? (state.transcripts as Record<string, ChatMessage[]>)
+      : {},
+    importedUsage: isRecord(state.importedUsage)
+      ? (state.importedUsage as Record<string, SessionUsage>)
+      : {},
+  };
+}
+
+/** Trim a transcript to what is worth caching across reloads; null keeps all */
+function cacheableMessages(messages: ChatMessage[], limit: number | null): ChatMessage[] {
+  if (limit === 0) return [];
+  return messages
+    .filter((m) => !m.pending) // the outbox persists these itself
+    .slice(limit === null ? 0 : -limit)
+    .map((m) => (m.streaming ? { ...m, streaming: false } : m));
+}
+
+export function loadDeckState(gatewayUrl: string): PersistedDeckState | null {
+  try {
+    const raw = localStorage.getItem(storageKey(gatewayUrl));
+    return raw ? migrate(JSON.parse(raw)) : null;
+  } catch (err) {
+    console.warn("[Persistence] Failed to load deck state:", err);
+    return null;
+  }
+}
+
+function writeState(gatewayUrl: string, snapshot: DeckSnapshot, limit: number): boolean {
+  const imported = new Set(snapshot.agents.filter((a) => a.readOnly).map((a) => a.id));
+  const transcripts: Record<string, ChatMessage[]> = {};
+  for (const [agentId, messages] of Object.entries(snapshot.transcripts)) {
+    transcripts[agentId] = cacheableMessages(messages, imported.has(agentId) ? null : limit);
+  }
+
+  const state: PersistedDeckState = {
+    ...snapshot,
+    transcripts,
+    version: DECK_STATE_VERSION,
+    savedAt: Date.now(),
+  };
+
+  try {
+    localStorage.setItem(storageKey(gatewayUrl), JSON.stringify(state));
+    return true;
+  } catch (err) {
+    console.warn(`[Persistence] Failed to save deck state (${limit} cached messages):`, err);
+    return false;
+  }
+}
+
+export function saveDeckState(gatewayUrl: string, snapshot: DeckSnapshot): SaveResult {
+  for (const limit of [MAX_CACHED_MESSAGES, ...FALLBACK_CACHE_SIZES]) {
+    if (writeState(gatewayUrl, snapshot, limit)) {
+      return limit === MAX_CACHED_MESSAGES ? "saved" : "trimmed";
+    }
+  }
+
+  // Imported transcripts can't be cut down, so they go as a whole
+  const kept = snapshot.agents.filter((a) => !a.readOnly);
+  if (kept.length === snapshot.agents.length) return "failed";
+  const ids = new Set(kept.map((a) => a.id));
+  const withoutImports: DeckSnapshot = {
+    ...snapshot,
+    agents: kept,
+    columnOrder: snapshot.columnOrder.filter((id) => ids.has(id)),
+    importedUsage: {},
+  };
+  return writeState(gatewayUrl, withoutImports, 0) ? "importsDropped" : "failed";
+}
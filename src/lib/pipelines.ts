@@ -0,0 +1,103 @@
+/**
+ * Agent pipelines.
+ *
+ * A pipeline is a set of links between columns. When a run in a link's source
+ * column finishes, its answer is rendered into the link's template and sent
+ * to the target column — if the link's condition holds and the chain started
+ * by the last user prompt has not used up the pipeline's hop limit.
+ *
+ * Template variables: {{answer}}, {{prompt}}, {{from.name}}, {{to.name}},
+ * {{hop}}.
+ */
+
+import type { Pipeline, PipelineCondition, PipelineHop, PipelineLink } from "../types";
+import { makeId } from "./ids";
+
+export const DEFAULT_MAX_HOPS = 5;
+
+export const DEFAULT_LINK_TEMPLATE =
+  "Here is the output from {{from.name}}:\n\n{{answer}}";
+
+export function newPipeline(name: string): Pipeline {
+  return { id: makeId(), name, enabled: true, maxHops: DEFAULT_MAX_HOPS, links: [] };
+}
+
+export function newLink(fromAgentId: string, toAgentId: string): PipelineLink {
+  return {
+    id: makeId(),
+    fromAgentId,
+    toAgentId,
+    template: DEFAULT_LINK_TEMPLATE,
+    condition: { kind: "always" },
+  };
+}
+
+export function conditionMatches(condition: PipelineCondition, answer: string): boolean {
+  switch (condition.kind) {
+    case "always":
+      return true;
+    case "contains":
+      return answer.toLowerCase().includes(condition.text.toLowerCase());
+    case "notContains":
+      return !answer.toLowerCase().includes(condition.text.toLowerCase());
+    case "matches":
+      try {
+        return new RegExp(condition.pattern, "i").test(answer);
+      } catch {
+        return false; // an invalid pattern never forwards
+      }
+  }
+}
+
+export interface PipelineForward {
+  pipeline: Pipeline;
+  link: PipelineLink;
+  hop: PipelineHop;
+}
+
+/**
+ * Links to follow after a run in `agentId` finished with `answer`. `via` is
+ * the pipeline hop that delivered the run's prompt, if any; a forwarded
+ * prompt only continues its own pipeline.
+ */
+export function forwardsFor(
+  pipelines: Pipeline[],
+  agentId: string,
+  answer: string,
+  via?: PipelineHop
+): PipelineForward[] {
+  const hop = (via?.hop ?? 0) + 1;
+  const forwards: PipelineForward[] = [];
+  for (const pipeline of pipelines) {
+    if (!pipeline.enabled) continue;
+    if (via && via.pipelineId !== pipeline.id) continue;
+    if (hop > pipeline.maxHops) continue;
+    for (const link of pipeline.links) {
+      if (link.fromAgentId !== agentId) continue;
+      if (!conditionMatches(link.condition, answer)) continue;
+      forwards.push({
+        pipeline,
+        link,
+        hop: { pipelineId: pipeline.id, linkId: link.id, fromAgentId: agentId, hop },
+      });
+    }
+  }
+  return forwards;
+}
+
+/** Columns linked to a column by enabled pipelines, by direction */
+export function linkedColumns(
+  pipelines: Pipeline[],
+  agentId: string
+): { upstream: string[]; downstream: string[] } {
+  const upstream = new Set<string>();
+  const downstream = new Set<string>();
+  for (const pipeline of pipelines) {
+    if (!pipeline.enabled) continue;
+    for (const link of pipeline.links) {
+      if (link.toAgentId === agentId) upstream.add(link.fromAgentId);
+      if (link.fromAgentId === agentId) downstream.add(link.toAgentId);
+    }
+  }
+  return { upstream: [...upstream], downstream: [...downstream] };
+}
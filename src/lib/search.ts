@@ -0,0 +1,164 @@
+/**
+ * Transcript search.
+ *
+ * Searches every message the deck holds: live turns, history loaded from the
+ * gateway and imported transcripts. A query is split into terms ("quoted
+ * phrases" stay whole) and a message matches when it contains all of them,
+ * case-insensitively, in its text, reasoning, tool call or error. Nothing is
+ * indexed ahead of time; the lowercased text of each message is cached by
+ * object, which stays valid because the store replaces messages on change.
+ */
+
+import type { AgentSession, ChatMessage } from "../types";
+import { dayOf } from "./usage";
+
+export interface SearchFilters {
+  /** Columns to search; empty means all */
+  agentIds: string[];
+  /** Roles to include; empty means all */
+  roles: ChatMessage["role"][];
+  /** Inclusive local days, "YYYY-MM-DD" */
+  from?: string;
+  to?: string;
+}
+
+export interface SearchResult {
+  agentId: string;
+  message: ChatMessage;
+  snippet: SnippetPart[];
+}
+
+export interface SnippetPart {
+  text: string;
+  hit: boolean;
+}
+
+/** Results returned at most; newest first */
+export const MAX_SEARCH_RESULTS = 200;
+
+/** Characters of context kept before the first hit in a snippet */
+const SNIPPET_RADIUS = 60;
+
+const lowered = new WeakMap<ChatMessage, string>();
+
+/** Everything searchable in a message, whitespace collapsed */
+function searchableText(msg: ChatMessage): string {
+  return [
+    msg.text,
+    msg.reasoning,
+    msg.toolUse?.name,
+    msg.toolUse?.result,
+    msg.error?.message,
+    msg.compaction?.summary,
+  ]
+    .filter((part): part is string => !!part)
+    .join(" ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function loweredText(msg: ChatMessage): string {
+  let text = lowered.get(msg);
+  if (text === undefined) {
+    text = searchableText(msg).toLowerCase();
+    lowered.set(msg, text);
+  }
+  return text;
+}
+
+/** Lowercased search terms; `"quoted phrases"` are kept as one term */
+export function parseQuery(query: string): string[] {
+  const terms: string[] = [];
+  for (const match of query.matchAll(/"([^"]+)"|(\S+)/g)) {
+    const term = (match[1] ?? match[2]).trim().toLowerCase();
+    if (term) terms.push(term);
+  }
+  return terms;
+}
+
+function inRange(ts: number, filters: SearchFilters): boolean {
+  if (!filters.from && !filters.to) return true;
+  const day = dayOf(ts);
+  return (!filters.from || day >= filters.from) && (!filters.to || day <= filters.to);
+}
+
+export function searchMessages(
+  sessions: Record<string, AgentSession>,
+  agentIds: string[],
+  query: string,
+  filters: SearchFilters,
+  limit = MAX_SEARCH_RESULTS
+): SearchResult[] {
+  const terms = parseQuery(query);
+  if (terms.length === 0) return [];
+
+  const matches: Array<{ agentId: string; message: ChatMessage }> = [];
+  for (const agentId of agentIds) {
+    if (filters.agentIds.length > 0 && !filters.agentIds.includes(agentId)) continue;
+    for (const message of sessions[agentId]?.messages ?? []) {
+      // Re-sent prompts are shown as the prompt they repeat
+      if (message.resent || message.pending) continue;
+      if (filters.roles.length > 0 && !filters.roles.includes(message.role)) continue;
+      if (!inRange(message.timestamp, filters)) continue;
+      const text = loweredText(message);
+      if (terms.every((term) => text.includes(term))) matches.push({ agentId, message });
+    }
+  }
+
+  return matches
+    .sort((a, b) => b.message.timestamp - a.message.timestamp)
+    .slice(0, limit)
+    .map(({ agentId, message }) => ({
+      agentId,
+      message,
+      snippet: snippetParts(searchableText(message), terms),
+    }));
+}
+
+/**
+ * A window of `text` around the first hit, split into plain and matching
+ * parts for highlighting.
+ */
+export function snippetParts(text: string, terms: string[], maxLength = 180): SnippetPart[] {
+  const lower = text.toLowerCase();
+  const hits = terms
+    .map((term) => lower.indexOf(term))
+    .filter((index) => index >= 0);
+  const first = hits.length > 0 ? Math.min(...hits) : 0;
+
+  let start = Math.max(0, first - SNIPPET_RADIUS);
+  if (start > 0) {
+    // Start on a word boundary when one is close
+    const space = text.indexOf(" ", start);
+    if (space >= 0 && space < first) start = space + 1;
+  }
+  const end = Math.min(text.length, start + maxLength);
+
+  // Hit ranges inside the window, merged where they overlap
+  const ranges: Array<[number, number]> = [];
+  for (const term of terms) {
+    for (let i = lower.indexOf(term, start); i >= 0 && i < end; i = lower.indexOf(term, i + 1)) {
+      ranges.push([i, Math.min(i + term.length, end)]);
+    }
+  }
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: Array<[number, number]> = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  }
+
+  const parts: SnippetPart[] = [];
+  let pos = start;
+  for (const [from, to] of merged) {
+    if (from > pos) parts.push({ text: text.slice(pos, from), hit: false });
+    parts.push({ text: text.slice(from, to), hit: true });
+    pos = to;
+  }
+  if (pos < end) parts.push({ text: text.slice(pos, end), hit: false });
+
+  if (start > 0) parts.unshift({ text: "…", hit: false });
+  if (end < text.length) parts.push({ text: "…", hit: false });
+  return parts;
+}
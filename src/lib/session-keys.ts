@@ -0,0 +1,86 @@
+/**
+ * Session key helpers.
+ *
+ * Gateway session keys look like `agent:<agentId>:<key>`. Columns backed by
+ * their own gateway agent use `agent:<agentId>:main`; scratch columns have no
+ * agent of their own and share the default agent with a per-column key,
+ * `agent:main:<columnId>` (the scheme every column used originally).
+ */
+
+import type { AgentConfig } from "../types";
+
+const DEFAULT_AGENT_ID = "main";
+
+/** Gateway agent that runs a column's turns */
+export function gatewayAgentFor(agent: AgentConfig): string {
+  return agent.scratch ? DEFAULT_AGENT_ID : agent.id;
+}
+
+/** Session key a column talks to when it has no other session selected */
+export function defaultSessionKey(agent: AgentConfig): string {
+  return agent.scratch
+    ? `agent:${DEFAULT_AGENT_ID}:${agent.id}`
+    : `agent:${agent.id}:main`;
+}
+
+export function parseSessionKey(
+  sessionKey: string
+): { agentId: string; rest: string } | null {
+  const parts = sessionKey.split(":");
+  if (parts[0] !== "agent" || parts.length < 3) return null;
+  return { agentId: parts[1], rest: parts.slice(2).join(":") };
+}
+
+/** A fresh session key for a column, next to its default one */
+export function newSessionKey(agent: AgentConfig): string {
+  const stamp = Date.now().toString(36);
+  return agent.scratch
+    ? `agent:${DEFAULT_AGENT_ID}:${agent.id}-${stamp}`
+    : `agent:${agent.id}:deck-${stamp}`;
+}
+
+/** Whether a session key belongs to a column (and can be shown in it) */
+export function isColumnSession(agent: AgentConfig, sessionKey: string): boolean {
+  const parsed = parseSessionKey(sessionKey);
+  if (!parsed) return false;
+  return agent.scratch
+    ? parsed.agentId === DEFAULT_AGENT_ID &&
+        (parsed.rest === agent.id || parsed.rest.startsWith(`${agent.id}-`))
+    : parsed.agentId === agent.id;
+}
+
+/**
+ * Find the column a gateway session key belongs to.
+ *
+ * 1. The column currently showing exactly this session.
+ * 2. Otherwise, by scheme — `agent:main:<columnId>` for scratch columns,
+ *    `agent:<columnId>:<key>` for agent-backed ones — but only while that
+ *    column is on its default session, so traffic from other sessions never
+ *    leaks into a transcript the user switched to.
+ */
+export function columnForSessionKey(
+  sessionKey: string | undefined,
+  agents: AgentConfig[],
+  activeKeys: Record<string, string>
+): string | undefined {
+  if (!sessionKey) return undefined;
+
+  for (const [columnId, key] of Object.entries(activeKeys)) {
+    if (key === sessionKey) return columnId;
+  }
+
+  const parsed = parseSessionKey(sessionKey);
+  if (!parsed) return undefined;
+
+  const candidate =
+    parsed.agentId === DEFAULT_AGENT_ID &&
+    agents.some((a) => a.id === parsed.rest)
+      ? agents.find((a) => a.id === parsed.rest)
+      : agents.find((a) => !a.scratch && a.id === parsed.agentId);
+
+  if (!candidate) return undefined;
+  const active = activeKeys[candidate.id];
+  return !active || active === defaultSessionKey(candidate)
+    ? candidate.id
+    : undefined;
+}
@@ -0,0 +1,82 @@
+/**
+ * Snippet library.
+ *
+ * Snippets are prompt templates shared by every column and every gateway, so
+ * they are stored under one localStorage key rather than with the deck state.
+ * Their `{{variables}}` are filled in by the user, except for the built-ins
+ * below, which come from the column the snippet is inserted into.
+ */
+
+import type { AgentConfig, AgentSession, Snippet } from "../types";
+import { makeId } from "./ids";
+
+const STORAGE_KEY = "openclaw.deck.snippets.v1";
+
+/** Variables the deck fills in itself */
+export const BUILTIN_VARIABLES = ["agent.name", "agent.model", "lastAnswer", "date"];
+
+export function loadSnippets(): Snippet[] {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? parseSnippets(JSON.parse(raw)) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveSnippets(snippets: Snippet[]): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(snippets));
+  } catch {
+    // storage full or unavailable — the library just won't persist
+  }
+}
+
+/** Validate snippets read from storage or an imported file */
+export function parseSnippets(data: unknown): Snippet[] {
+  const list = Array.isArray(data)
+    ? data
+    : Array.isArray((data as { snippets?: unknown })?.snippets)
+      ? (data as { snippets: unknown[] }).snippets
+      : null;
+  if (!list) throw new Error("Expected a list of snippets");
+
+  return list.flatMap((item) => {
+    const s = item as Partial<Snippet>;
+    if (typeof s?.name !== "string" || typeof s.body !== "string") return [];
+    return [
+      {
+        id: typeof s.id === "string" ? s.id : makeId(),
+        name: s.name,
+        body: s.body,
+        updatedAt: typeof s.updatedAt === "number" ? s.updatedAt : Date.now(),
+      },
+    ];
+  });
+}
+
+export function exportSnippets(snippets: Snippet[]): string {
+  return JSON.stringify({ version: 1, snippets }, null, 2);
+}
+
+/** Add imported snippets, replacing ones with the same id */
+export function mergeSnippets(current: Snippet[], imported: Snippet[]): Snippet[] {
+  const ids = new Set(imported.map((s) => s.id));
+  return [...current.filter((s) => !ids.has(s.id)), ...imported];
+}
+
+/** Values for the built-in variables in a column */
+export function builtinValues(
+  agent: AgentConfig | undefined,
+  session: AgentSession | undefined
+): Record<string, string> {
+  const lastAnswer = [...(session?.messages ?? [])]
+    .reverse()
+    .find((m) => m.role === "assistant" && m.text.trim() && !m.streaming);
+  return {
+    "agent.name": agent?.name ?? "",
+    "agent.model": agent?.model ?? "",
+    lastAnswer: lastAnswer?.text ?? "",
+    date: new Date().toLocaleDateString(),
+  };
+}
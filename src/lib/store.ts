@@ -3,12 +3,75 @@ import type {
   AgentConfig,
   AgentSession,
   AgentStatus,
+  Budget,
   ChatMessage,
   DeckConfig,
+  GatewayAgentInfo,
   GatewayEvent,
+  GatewaySessionInfo,
+  OutboxEvent,
+  Pipeline,
+  PipelineHop,
+  RunError,
+  Snippet,
   SessionUsage,
+  ToolUse,
+  UsageLedger,
 } from "../types";
-import { GatewayClient } from "./gateway-client";
+import { GatewayClient, GatewayRequestError } from "./gateway-client";
+import {
+  HISTORY_PAGE_SIZE,
+  mergeHistory,
+  pagingFrom,
+  parseHistoryMessages,
+  prependHistory,
+  toolResultText,
+  type ChatHistoryResponse,
+  type RawHistoryMessage,
+} from "./history";
+import { makeId } from "./ids";
+import { buildForkSeed, buildVersionSeed, seedMessages } from "./fork";
+import { contextBefore, resolveVersions } from "./versions";
+import { forwardsFor } from "./pipelines";
+import { renderTemplate } from "./templates";
+import { loadSnippets, mergeSnippets, saveSnippets } from "./snippets";
+import type { ExportedColumn } from "./export";
+import {
+  emptyLedger,
+  forgetSessions,
+  loadUsageLedger,
+  recordUsage,
+  saveUsageLedger,
+} from "./usage";
+import {
+  BUDGET_EXCEEDED,
+  BudgetExceededError,
+  DECK_BUDGET_SCOPE,
+  checkBudgets,
+  periodKey,
+} from "./budgets";
+import { estimateTokens, withEstimatedCost } from "./models";
+import { COMPACTION_LOOKBACK, compactedPreviews, summarizedAway } from "./compaction";
+import {
+  columnForSessionKey,
+  defaultSessionKey,
+  gatewayAgentFor,
+  isColumnSession,
+  newSessionKey,
+  parseSessionKey,
+} from "./session-keys";
+import {
+  FALLBACK_MODEL,
+  FALLBACK_MODELS,
+  buildAgentFromGateway,
+  type GatewayInfo,
+} from "./gateway-config";
+import {
+  loadDeckState,
+  saveDeckState,
+  type DeckSnapshot,
+  type SaveResult,
+} from "./persistence";
 import { themes, applyTheme } from "../themes";
 
 // ─── Default Config ───
@@ -28,28 +91,134 @@ interface DeckStore {
   columnOrder: string[];
   client: GatewayClient | null;
   theme: string;
+  /** Deck-wide toggle for the reasoning section on assistant messages */
+  showReasoning: boolean;
+  pipelines: Pipeline[];
+  /** Prompt snippet library (shared across gateways, see lib/snippets.ts) */
+  snippets: Snippet[];
+  /** Usage recorded per day, agent and model (see lib/usage.ts) */
+  usageLedger: UsageLedger;
+  /** Limits for the whole deck; columns can add their own (AgentConfig.budget) */
+  deckBudget: Budget | null;
+  /** Period key by budget scope for hard limits overridden (see lib/budgets.ts) */
+  budgetOverrides: Record<string, string>;
+  /** Models offered by the gateway config (see fetchGatewayConfig) */
+  availableModels: GatewayInfo["availableModels"];
+  defaultModel: string;
+  /** Set when deck state couldn't be saved in full (see saveDeckState) */
+  storageWarning: string | null;
+  /** Message a column should scroll to and flash (set by the search panel) */
+  focusedMessage: { agentId: string; messageId: string; at: number } | null;
 
   // Actions
   initialize: (config: Partial<DeckConfig>) => void;
-  addAgent: (agent: AgentConfig) => void;
+  /** `seed` starts the column on a fresh session holding these messages */
+  addAgent: (agent: AgentConfig, seed?: ChatMessage[]) => void;
   removeAgent: (agentId: string) => void;
+  updateAgentConfig: (agentId: string, patch: Partial<Omit<AgentConfig, "id">>) => Promise<void>;
   reorderColumns: (order: string[]) => void;
-  sendMessage: (agentId: string, text: string) => Promise<void>;
+  /**
+   * `resend` marks the user message as a repeat of an earlier one;
+   * `versionOf` makes the turn a new version of the turn started by that
+   * user message (see lib/versions.ts); `broadcastId` tags the prompt as
+   * part of a broadcast; `pipeline` marks it as forwarded by a pipeline.
+   */
+  sendMessage: (
+    agentId: string,
+    text: string,
+    options?: {
+      resend?: boolean;
+      versionOf?: string;
+      broadcastId?: string;
+      pipeline?: PipelineHop;
+    }
+  ) => Promise<void>;
+  /**
+   * Send one prompt to several columns; returns the broadcast id once every
+   * target holds the tagged prompt, without waiting for the gateway. A
+   * target that fails shows the error in its own column.
+   */
+  broadcastMessage: (text: string, agentIds: string[]) => string;
+  /**
+   * Re-run a turn as a new version. It is sent as another turn in the same
+   * gateway session, so the agent sees the earlier versions.
+   */
+  regenerateMessage: (agentId: string, messageId: string) => Promise<void>;
+  editAndResend: (agentId: string, messageId: string, text: string) => Promise<void>;
+  /**
+   * Move a column to a fresh session seeded with the conversation before the
+   * turn started by `promptId`, so a re-run of it is answered independently
+   */
+  startVersionSession: (agentId: string, promptId: string) => Promise<void>;
+  retryRun: (agentId: string, errorMessageId: string) => Promise<void>;
+  editQueuedMessage: (agentId: string, messageId: string, text: string) => void;
+  cancelQueuedMessage: (agentId: string, messageId: string) => void;
+  handleOutboxEvent: (event: OutboxEvent) => void;
   setAgentStatus: (agentId: string, status: AgentStatus) => void;
   appendMessageChunk: (agentId: string, runId: string, chunk: string) => void;
+  appendReasoningChunk: (agentId: string, runId: string, chunk: string) => void;
   finalizeMessage: (agentId: string, runId: string) => void;
+  /** Send a finished run's answer along the pipelines linked to its column */
+  forwardRun: (agentId: string, runId: string) => void;
+  markRunAborted: (agentId: string, runId: string) => void;
+  failRun: (agentId: string, runId: string | null, error: RunError) => void;
+  abortRun: (agentId: string) => Promise<void>;
+  abortAllRuns: () => Promise<void>;
   handleGatewayEvent: (event: GatewayEvent) => void;
-  createAgentOnGateway: (agent: AgentConfig) => Promise<void>;
+  resyncSessions: (agentIds?: string[]) => Promise<void>;
+  loadOlderHistory: (agentId: string) => Promise<void>;
+  syncAgentsFromGateway: () => Promise<void>;
+  listColumnSessions: (agentId: string) => Promise<GatewaySessionInfo[]>;
+  switchSession: (agentId: string, sessionKey: string) => void;
+  startNewSession: (agentId: string) => void;
+  /** Clear a column's transcript; the gateway session is left alone */
+  clearMessages: (agentId: string) => void;
+  /**
+   * Compact the column's gateway session; rejects if the gateway refuses or
+   * has nothing to compact
+   */
+  compactSession: (agentId: string) => Promise<void>;
+  /** Fill in which messages a compaction divider summarized away */
+  loadSummarizedMessages: (agentId: string, sessionKey: string, dividerId: string) => Promise<void>;
+  createAgentOnGateway: (agent: AgentConfig, seed?: ChatMessage[]) => Promise<void>;
+  /**
+   * Add an exported transcript as a read-only column; returns its id.
+   * Messages must come from parseTranscriptJson, which validates them.
+   */
+  importTranscript: (column: ExportedColumn) => string;
+  /** New column continuing from a message; `versionChoices` as shown in the column */
+  forkColumn: (
+    agentId: string,
+    messageId: string,
+    versionChoices?: Record<string, number>
+  ) => Promise<void>;
   deleteAgentOnGateway: (agentId: string) => Promise<void>;
   disconnect: () => void;
   setTheme: (themeId: string) => void;
+  setShowReasoning: (show: boolean) => void;
+  focusMessage: (agentId: string, messageId: string) => void;
+  savePipeline: (pipeline: Pipeline) => void;
+  deletePipeline: (pipelineId: string) => void;
+  saveSnippet: (snippet: Snippet) => void;
+  deleteSnippet: (snippetId: string) => void;
+  importSnippets: (snippets: Snippet[]) => void;
+  clearUsageHistory: () => void;
+  setDeckBudget: (budget: Budget | null) => void;
+  /** Lift the hard limits blocking a column for the rest of their period */
+  overrideBudget: (agentId: string) => void;
+  setGatewayInfo: (info: GatewayInfo) => void;
 }
 
 // ─── Helpers ───
 
-function createSession(agentId: string): AgentSession {
+function isReadOnly(state: DeckStore, agentId: string): boolean {
+  return !!state.config.agents.find((a) => a.id === agentId)?.readOnly;
+}
+
+function createSession(agent: AgentConfig, sessionKey?: string): AgentSession {
   return {
-    agentId,
+    agentId: agent.id,
+    sessionKey: sessionKey ?? defaultSessionKey(agent),
     status: "idle",
     messages: [],
     activeRunId: null,
@@ -58,87 +227,284 @@ function createSession(agentId: string): AgentSession {
   };
 }
 
-function makeId(): string {
-  return `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+/** Delay before writing deck state after a change (streaming changes a lot) */
+const PERSIST_DEBOUNCE_MS = 500;
+
+/** Stops the active persistence subscription, flushing any pending write */
+let stopPersistence: (() => void) | null = null;
+
+/** What the status bar says after each kind of save */
+const STORAGE_WARNINGS: Record<SaveResult, string | null> = {
+  saved: null,
+  trimmed: "Storage full: fewer messages are cached for reload",
+  importsDropped: "Storage full: imported columns won't survive a reload",
+  failed: "Storage full: deck changes are not being saved",
+};
+
+/** User messages stopped before their run was acked, so its id was unknown */
+const abortedPrompts = new Set<string>();
+
+/**
+ * Sessions started by the deck and not yet seen in a usage report; their
+ * first report is booked in full rather than taken as a baseline
+ */
+const createdSessions = new Set<string>();
+
+/** How long a column waits for the compaction event before giving up */
+const COMPACTION_TIMEOUT_MS = 60_000;
+
+/** Pending compaction timeouts by agent id */
+const compactionTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+function clearCompactionTimer(agentId: string): void {
+  clearTimeout(compactionTimers.get(agentId));
+  compactionTimers.delete(agentId);
+}
+
+/**
+ * Runs forwarded by a pipeline before their end or error event was handled
+ * (a resync can settle a run first); the event then doesn't forward again
+ */
+const forwardedRuns = new Set<string>();
+
+function snapshotOf(state: DeckStore): DeckSnapshot {
+  const transcripts: DeckSnapshot["transcripts"] = {};
+  const sessionKeys: DeckSnapshot["sessionKeys"] = {};
+  const importedUsage: DeckSnapshot["importedUsage"] = {};
+  for (const [agentId, session] of Object.entries(state.sessions)) {
+    transcripts[agentId] = session.messages;
+    sessionKeys[agentId] = session.sessionKey;
+    if (session.usage && isReadOnly(state, agentId)) importedUsage[agentId] = session.usage;
+  }
+  return {
+    agents: state.config.agents,
+    columnOrder: state.columnOrder,
+    theme: state.theme,
+    showReasoning: state.showReasoning,
+    pipelines: state.pipelines,
+    deckBudget: state.deckBudget,
+    budgetOverrides: state.budgetOverrides,
+    sessionKeys,
+    transcripts,
+    importedUsage,
+  };
 }
 
-/** Convert raw gateway chat.history messages into ChatMessage[] */
-function parseHistoryMessages(
-  raw?: Array<{
-    role?: string;
-    content?: Array<{ type?: string; text?: string }> | string;
-    timestamp?: number;
-    __openclaw?: { kind?: string };
-  }>
-): ChatMessage[] {
-  if (!Array.isArray(raw)) return [];
-
-  const result: ChatMessage[] = [];
-  for (const msg of raw) {
-    const role = msg.role;
-    if (!role) continue;
-
-    // Skip tool/function messages and compaction markers
-    if (role === "tool" || role === "toolresult" || role === "function") continue;
-    if (msg.__openclaw?.kind === "compaction") continue;
-
-    // Extract text content
-    let text = "";
-    if (Array.isArray(msg.content)) {
-      text = msg.content
-        .filter((p) => p.type === "text" && p.text)
-        .map((p) => p.text)
-        .join("");
-    } else if (typeof msg.content === "string") {
-      text = msg.content;
-    }
-
-    // Skip empty, heartbeat, and NO_REPLY messages
-    if (!text.trim()) continue;
-    if (/HEARTBEAT_OK|heartbeat|NO_REPLY/i.test(text)) continue;
-
-    // Map role to ChatMessage role
-    let chatRole: ChatMessage["role"];
-    if (role === "user") {
-      chatRole = "user";
-    } else if (role === "assistant") {
-      chatRole = "assistant";
-    } else if (role === "system") {
-      chatRole = "announcement";
+/** Gateway agent and session key a column's turns go to */
+function routeFor(state: DeckStore, agentId: string): { agentId: string; sessionKey: string } {
+  const sessionKey = state.sessions[agentId]?.sessionKey;
+  const agent = state.config.agents.find((a) => a.id === agentId);
+  const fallbackAgent = agent ? gatewayAgentFor(agent) : "main";
+  return sessionKey
+    ? { agentId: parseSessionKey(sessionKey)?.agentId ?? fallbackAgent, sessionKey }
+    : {
+        agentId: fallbackAgent,
+        sessionKey: agent ? defaultSessionKey(agent) : `agent:main:${agentId}`,
+      };
+}
+
+/** Column that events for a gateway session key should land in */
+function columnFor(state: DeckStore, sessionKey: string | undefined): string | undefined {
+  const activeKeys: Record<string, string> = {};
+  for (const [id, session] of Object.entries(state.sessions)) {
+    activeKeys[id] = session.sessionKey;
+  }
+  return columnForSessionKey(sessionKey, state.config.agents, activeKeys);
+}
+
+/**
+ * Apply a tool stream event to a run's transcript. A new call is inserted
+ * before the run's empty streaming placeholder; if the agent already wrote
+ * text or reasoning, that message is closed off and a fresh placeholder follows the call so
+ * later deltas land after it.
+ */
+function withToolEvent(
+  session: AgentSession,
+  runId: string,
+  data: Record<string, unknown>
+): AgentSession {
+  const phase = (data.phase as string | undefined) ?? "start";
+  const callId = (data.toolCallId ?? data.id) as string | undefined;
+  const name = ((data.name ?? data.tool) as string | undefined) ?? "tool";
+
+  const existing = session.messages.findIndex(
+    (msg) =>
+      msg.runId === runId &&
+      msg.toolUse !== undefined &&
+      (callId ? msg.toolUse.id === callId : msg.toolUse.status === "running")
+  );
+
+  if (existing !== -1) {
+    const msg = session.messages[existing];
+    const tool = msg.toolUse!;
+    let toolUse: ToolUse;
+    if (phase === "result" || phase === "end" || phase === "error") {
+      toolUse = {
+        ...tool,
+        status: phase === "error" || data.isError ? "error" : "done",
+        result: toolResultText(data.result ?? data.error),
+        durationMs: Date.now() - msg.timestamp,
+      };
     } else {
-      continue;
+      toolUse = {
+        ...tool,
+        args: data.args ?? tool.args,
+        result:
+          data.partialResult !== undefined
+            ? toolResultText(data.partialResult)
+            : tool.result,
+      };
     }
+    const messages = [...session.messages];
+    messages[existing] = { ...msg, toolUse };
+    return { ...session, messages };
+  }
 
-    result.push({
-      id: makeId(),
-      role: chatRole,
-      text,
-      timestamp: msg.timestamp ?? Date.now(),
-      announcement: chatRole === "announcement",
-    });
+  // Results for calls we never saw start (e.g. after a reconnect) are left
+  // to the next history resync.
+  if (phase !== "start") return session;
+
+  const toolMsg: ChatMessage = {
+    id: makeId(),
+    role: "tool",
+    text: "",
+    timestamp: Date.now(),
+    runId,
+    toolUse: { id: callId, name, status: "running", args: data.args },
+  };
+
+  const streamingIndex = session.messages.findIndex(
+    (msg) => msg.runId === runId && msg.streaming
+  );
+  if (streamingIndex === -1) {
+    return { ...session, messages: [...session.messages, toolMsg] };
+  }
+
+  const placeholder = session.messages[streamingIndex];
+  if (!placeholder.text && !placeholder.reasoning) {
+    const messages = [...session.messages];
+    messages.splice(streamingIndex, 0, toolMsg);
+    return { ...session, messages };
+  }
+
+  const messages = session.messages.map((msg, i) =>
+    i === streamingIndex ? { ...msg, streaming: false } : msg
+  );
+  messages.push(toolMsg, {
+    ...placeholder,
+    id: makeId(),
+    text: "",
+    reasoning: undefined,
+    timestamp: Date.now(),
+  });
+  return { ...session, messages };
+}
+
+/** Error details for the transcript from a thrown request or an error payload */
+function runErrorFrom(err: unknown, prompt?: string): RunError {
+  if (err instanceof GatewayRequestError || err instanceof BudgetExceededError) {
+    return { code: err.code, message: err.message, prompt };
+  }
+  if (err instanceof Error) {
+    return { code: "CLIENT_ERROR", message: err.message, prompt };
   }
+  if (typeof err === "string") {
+    return { code: "RUN_FAILED", message: err, prompt };
+  }
+  const payload = err as { code?: unknown; message?: unknown } | undefined;
+  return {
+    code: typeof payload?.code === "string" ? payload.code : "RUN_FAILED",
+    message:
+      typeof payload?.message === "string" ? payload.message : "The run failed",
+    prompt,
+  };
+}
 
-  return result;
+/** Text of the user turn that started a run (or the latest one) */
+function promptFor(session: AgentSession, runId: string | null): string | undefined {
+  const runStart = runId
+    ? session.messages.findIndex((msg) => msg.runId === runId)
+    : -1;
+  const end = runStart === -1 ? session.messages.length : runStart;
+  for (let i = end - 1; i >= 0; i--) {
+    const msg = session.messages[i];
+    if (msg.role === "user" && !msg.pending) return msg.text;
+  }
+  return undefined;
+}
+
+/** Append an empty streaming assistant message for a run that was just acked */
+function withAssistantPlaceholder(
+  session: AgentSession,
+  runId: string
+): AgentSession {
+  // The lifecycle start event may have beaten the ack and created one already
+  if (session.messages.some((msg) => msg.runId === runId)) {
+    return { ...session, activeRunId: runId, status: "streaming" };
+  }
+
+  const assistantMsg: ChatMessage = {
+    id: makeId(),
+    role: "assistant",
+    text: "",
+    timestamp: Date.now(),
+    streaming: true,
+    runId,
+  };
+
+  return {
+    ...session,
+    messages: [...session.messages, assistantMsg],
+    activeRunId: runId,
+    status: "streaming",
+  };
 }
 
 // ─── Store ───
 
-export const useDeckStore = create<DeckStore>((set, get) => ({
+export const useDeckStore = create<DeckStore>((set, get, api) => ({
   config: DEFAULT_CONFIG,
   sessions: {},
   gatewayConnected: false,
   columnOrder: [],
   client: null,
   theme: 'midnight',
+  showReasoning: true,
+  pipelines: [],
+  snippets: loadSnippets(),
+  usageLedger: loadUsageLedger(),
+  deckBudget: null,
+  budgetOverrides: {},
+  availableModels: FALLBACK_MODELS,
+  defaultModel: FALLBACK_MODEL,
+  storageWarning: null,
+  focusedMessage: null,
 
   initialize: (partialConfig) => {
     const config = { ...DEFAULT_CONFIG, ...partialConfig };
-    const sessions: Record<string, AgentSession> = {};
-    const columnOrder: string[] = [];
 
+    // Restore what this deck looked like for this gateway last time;
+    // the connect handler then reconciles it with the gateway.
+    const persisted = loadDeckState(config.gatewayUrl);
+    if (persisted && persisted.agents.length > 0) {
+      config.agents = persisted.agents;
+    }
+
+    const sessions: Record<string, AgentSession> = {};
     for (const agent of config.agents) {
-      sessions[agent.id] = createSession(agent.id);
-      columnOrder.push(agent.id);
+      sessions[agent.id] = {
+        ...createSession(agent, persisted?.sessionKeys[agent.id]),
+        messages: persisted?.transcripts[agent.id] ?? [],
+        usage: persisted?.importedUsage[agent.id],
+      };
+    }
+
+    const agentIds = config.agents.map((a) => a.id);
+    const columnOrder = [
+      ...(persisted?.columnOrder ?? []).filter((id) => agentIds.includes(id)),
+    ];
+    for (const id of agentIds) {
+      if (!columnOrder.includes(id)) columnOrder.push(id);
     }
 
     // Create the gateway client
@@ -146,6 +512,18 @@ export const useDeckStore = create<DeckStore>((set, get) => ({
       url: config.gatewayUrl,
       token: config.token,
       onEvent: (event) => get().handleGatewayEvent(event),
+      onOutbox: (event) => get().handleOutboxEvent(event),
+      // Budgets may have been crossed while the turn waited in the outbox
+      beforeReplay: (item) => {
+        const { config, deckBudget, usageLedger, budgetOverrides } = get();
+        const budget = checkBudgets(
+          config.agents.find((a) => a.id === item.columnId),
+          deckBudget,
+          usageLedger,
+          budgetOverrides
+        );
+        return budget?.level === "hard" ? new BudgetExceededError(budget.reason) : null;
+      },
       onConnection: (connected) => {
         set({ gatewayConnected: connected });
         if (connected) {
@@ -156,65 +534,107 @@ export const useDeckStore = create<DeckStore>((set, get) => ({
           }
           set({ sessions });
 
-          // Load chat history for sessions that have no messages
-          for (const agentId of Object.keys(sessions)) {
-            if (sessions[agentId].messages.length > 0) continue;
-            const sessionKey = `agent:main:${agentId}`;
-            client
-              .chatHistory(sessionKey, 50)
-              .then((res) => {
-                const data = res as {
-                  messages?: Array<{
-                    role?: string;
-                    content?:
-                      | Array<{ type?: string; text?: string }>
-                      | string;
-                    timestamp?: number;
-                    __openclaw?: { kind?: string };
-                  }>;
-                };
-                const historyMsgs = parseHistoryMessages(data?.messages);
-                if (historyMsgs.length === 0) return;
-
-                set((state) => {
-                  const session = state.sessions[agentId];
-                  if (!session || session.messages.length > 0) return state;
-                  return {
-                    sessions: {
-                      ...state.sessions,
-                      [agentId]: {
-                        ...session,
-                        messages: historyMsgs,
-                      },
-                    },
-                  };
-                });
-              })
-              .catch((err) => {
-                console.warn(
-                  `[DeckStore] Failed to load history for ${agentId}:`,
-                  err
-                );
-              });
-          }
+          // Line the columns up with the gateway's agents, then reconcile
+          // every column with its gateway transcript. On a reconnect this
+          // also recovers anything streamed while offline.
+          void get()
+            .syncAgentsFromGateway()
+            .then(() => get().resyncSessions());
         }
       },
+      onGap: () => {
+        // Runs still streaming can't be fully recovered until they finish;
+        // flag them so finalizeMessage() fetches history a second time.
+        set((state) => {
+          const sessions = { ...state.sessions };
+          for (const [id, session] of Object.entries(sessions)) {
+            if (session.activeRunId) {
+              sessions[id] = { ...session, needsResync: true };
+            }
+          }
+          return { sessions };
+        });
+        void get().resyncSessions();
+      },
     });
 
+    // Restore prompts still queued from a previous page load
+    for (const item of client.queued) {
+      const session = sessions[item.columnId];
+      if (!session) continue;
+      sessions[item.columnId] = {
+        ...session,
+        messages: [
+          ...session.messages,
+          {
+            id: item.id,
+            role: "user",
+            text: item.message,
+            timestamp: item.queuedAt,
+            pending: true,
+          },
+        ],
+      };
+    }
+
     set({ config, sessions, columnOrder, client });
+    if (persisted) {
+      get().setTheme(persisted.theme);
+      set({
+        showReasoning: persisted.showReasoning,
+        pipelines: persisted.pipelines,
+        deckBudget: persisted.deckBudget,
+        budgetOverrides: persisted.budgetOverrides,
+      });
+    }
     client.connect();
+
+    // Persist deck state for this gateway, debounced
+    stopPersistence?.();
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const flush = () => {
+      if (timer) clearTimeout(timer);
+      timer = null;
+      const result = saveDeckState(config.gatewayUrl, snapshotOf(get()));
+      const storageWarning = STORAGE_WARNINGS[result];
+      if (storageWarning !== get().storageWarning) set({ storageWarning });
+    };
+    const unsubscribe = api.subscribe((state, prev) => {
+      if (
+        state.config === prev.config &&
+        state.columnOrder === prev.columnOrder &&
+        state.theme === prev.theme &&
+        state.showReasoning === prev.showReasoning &&
+        state.pipelines === prev.pipelines &&
+        state.deckBudget === prev.deckBudget &&
+        state.budgetOverrides === prev.budgetOverrides &&
+        state.sessions === prev.sessions
+      ) {
+        return;
+      }
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(flush, PERSIST_DEBOUNCE_MS);
+    });
+    window.addEventListener("pagehide", flush);
+    stopPersistence = () => {
+      if (timer) flush();
+      unsubscribe();
+      window.removeEventListener("pagehide", flush);
+      stopPersistence = null;
+    };
   },
 
-  addAgent: (agent) => {
+  addAgent: (agent, seed) => {
+    const session = seed
+      ? { ...createSession(agent, newSessionKey(agent)), messages: seed }
+      : createSession(agent);
+    createdSessions.add(session.sessionKey);
     set((state) => ({
       config: {
         ...state.config,
         agents: [...state.config.agents, agent],
       },
-      sessions: {
-        ...state.sessions,
-        [agent.id]: createSession(agent.id),
-      },
+      sessions: { ...state.sessions, [agent.id]: session },
       columnOrder: [...state.columnOrder, agent.id],
     }));
   },
@@ -233,75 +653,273 @@ export const useDeckStore = create<DeckStore>((set, get) => ({
     });
   },
 
+  /**
+   * Apply a config change optimistically, push it to the gateway via
+   * agents.update, and roll back if the gateway rejects it. Rethrows so the
+   * caller can show the error.
+   */
+  updateAgentConfig: async (agentId, patch) => {
+    const previous = get().config.agents.find((a) => a.id === agentId);
+    if (!previous) return;
+
+    const applyAgent = (agent: AgentConfig) =>
+      set((state) => ({
+        config: {
+          ...state.config,
+          agents: state.config.agents.map((a) => (a.id === agentId ? agent : a)),
+        },
+      }));
+
+    applyAgent({ ...previous, ...patch });
+
+    // icon/accent are deck-only; everything else lives on the gateway agent
+    // (scratch columns have no gateway agent at all)
+    const { name, model, context, shell, workspace } = patch;
+    const gatewayPatch = Object.fromEntries(
+      Object.entries({ name, model, context, shell, workspace }).filter(
+        ([, value]) => value !== undefined
+      )
+    );
+    if (previous.scratch || Object.keys(gatewayPatch).length === 0) return;
+
+    try {
+      const { client } = get();
+      if (!client?.connected) throw new Error("Gateway not connected");
+      await client.updateAgent({ id: agentId, ...gatewayPatch });
+    } catch (err) {
+      // Only roll back fields this update changed
+      const current = get().config.agents.find((a) => a.id === agentId);
+      if (current) {
+        const rollback = Object.fromEntries(
+          Object.keys(patch).map((key) => [key, previous[key as keyof AgentConfig]])
+        );
+        applyAgent({ ...current, ...rollback });
+      }
+      throw err;
+    }
+  },
+
   reorderColumns: (order) => set({ columnOrder: order }),
 
-  sendMessage: async (agentId, text) => {
+  sendMessage: async (agentId, text, options) => {
     const { client, sessions } = get();
-    if (!client?.connected) {
-      console.error("Gateway not connected");
+    const session = sessions[agentId];
+    if (!client || !session || isReadOnly(get(), agentId)) return;
+
+    const { config, deckBudget, usageLedger, budgetOverrides } = get();
+    const budget = checkBudgets(
+      config.agents.find((a) => a.id === agentId),
+      deckBudget,
+      usageLedger,
+      budgetOverrides
+    );
+    if (budget?.level === "hard") {
+      // Shown as a failed turn; overriding from there resends the prompt
+      const refusedMsg: ChatMessage = {
+        id: makeId(),
+        role: "user",
+        text,
+        timestamp: Date.now(),
+        ...(options?.resend ? { resent: true } : {}),
+        ...(options?.broadcastId ? { broadcastId: options.broadcastId } : {}),
+        ...(options?.pipeline ? { pipeline: options.pipeline } : {}),
+      };
+      set((state) => ({
+        sessions: {
+          ...state.sessions,
+          [agentId]: {
+            ...state.sessions[agentId],
+            messages: [...state.sessions[agentId].messages, refusedMsg],
+          },
+        },
+      }));
+      get().failRun(agentId, null, {
+        code: BUDGET_EXCEEDED,
+        message: budget.reason,
+        prompt: text,
+      });
+      return;
+    }
+
+    // Each column runs as its own gateway agent (scratch columns share
+    // "main" with a per-column session key)
+    const route = routeFor(get(), agentId);
+
+    if (!client.connected) {
+      // Park the prompt in the outbox; it is replayed after the next handshake
+      const item = client.queueAgentRun({
+        columnId: agentId,
+        agentId: route.agentId,
+        sessionKey: route.sessionKey,
+        message: text,
+      });
+      const queuedMsg: ChatMessage = {
+        id: item.id,
+        role: "user",
+        text,
+        timestamp: item.queuedAt,
+        pending: true,
+        ...(options?.broadcastId ? { broadcastId: options.broadcastId } : {}),
+        ...(options?.pipeline ? { pipeline: options.pipeline } : {}),
+      };
+      set((state) => ({
+        sessions: {
+          ...state.sessions,
+          [agentId]: {
+            ...state.sessions[agentId],
+            messages: [...state.sessions[agentId].messages, queuedMsg],
+          },
+        },
+      }));
       return;
     }
 
     // Add user message immediately
+    const versionOf = options?.versionOf;
+    const versionGroup = versionOf
+      ? (session.messages.find((msg) => msg.id === versionOf)?.versionGroup ?? versionOf)
+      : undefined;
     const userMsg: ChatMessage = {
       id: makeId(),
       role: "user",
       text,
       timestamp: Date.now(),
+      ...(options?.resend ? { resent: true } : {}),
+      ...(versionGroup ? { versionGroup } : {}),
+      ...(options?.broadcastId ? { broadcastId: options.broadcastId } : {}),
+      ...(options?.pipeline ? { pipeline: options.pipeline } : {}),
     };
 
-    const session = sessions[agentId];
-    if (!session) return;
-
     set((state) => ({
       sessions: {
         ...state.sessions,
         [agentId]: {
           ...session,
-          messages: [...session.messages, userMsg],
+          messages: [
+            ...session.messages.map((msg) =>
+              msg.id === versionOf ? { ...msg, versionGroup } : msg
+            ),
+            userMsg,
+          ],
+          tokenCount: session.tokenCount + estimateTokens(text),
           status: "thinking",
         },
       },
     }));
 
     try {
-      // All columns route through the default "main" agent on the gateway,
-      // using distinct session keys to keep conversations separate.
-      const sessionKey = `agent:main:${agentId}`;
-      const { runId } = await client.runAgent("main", text, sessionKey);
-
-      // Create placeholder assistant message for streaming
-      const assistantMsg: ChatMessage = {
-        id: makeId(),
-        role: "assistant",
-        text: "",
-        timestamp: Date.now(),
-        streaming: true,
-        runId,
-      };
+      const { runId } = await client.runAgent(route.agentId, text, route.sessionKey);
 
       set((state) => ({
         sessions: {
           ...state.sessions,
-          [agentId]: {
-            ...state.sessions[agentId],
-            messages: [...state.sessions[agentId].messages, assistantMsg],
-            activeRunId: runId,
-            status: "streaming",
-          },
+          [agentId]: withAssistantPlaceholder(state.sessions[agentId], runId),
         },
       }));
+
+      // Stopped while waiting for the ack: abort the run now that it has an id
+      if (abortedPrompts.delete(userMsg.id)) {
+        get().markRunAborted(agentId, runId);
+        client.abortRun(route.sessionKey, runId).catch((err) =>
+          console.warn(`[DeckStore] Failed to abort run for ${agentId}:`, err)
+        );
+      }
     } catch (err) {
+      abortedPrompts.delete(userMsg.id);
       console.error(`Failed to run agent ${agentId}:`, err);
-      set((state) => ({
+      get().failRun(agentId, null, runErrorFrom(err, text));
+    }
+  },
+
+  editQueuedMessage: (agentId, messageId, text) => {
+    const { client } = get();
+    if (!client?.editQueued(messageId, text)) return;
+
+    set((state) => {
+      const session = state.sessions[agentId];
+      if (!session) return state;
+      return {
         sessions: {
           ...state.sessions,
           [agentId]: {
-            ...state.sessions[agentId],
-            status: "error",
+            ...session,
+            messages: session.messages.map((msg) =>
+              msg.id === messageId ? { ...msg, text } : msg
+            ),
           },
         },
-      }));
+      };
+    });
+  },
+
+  cancelQueuedMessage: (agentId, messageId) => {
+    const { client } = get();
+    if (!client?.cancelQueued(messageId)) return;
+
+    set((state) => {
+      const session = state.sessions[agentId];
+      if (!session) return state;
+      return {
+        sessions: {
+          ...state.sessions,
+          [agentId]: {
+            ...session,
+            messages: session.messages.filter((msg) => msg.id !== messageId),
+          },
+        },
+      };
+    });
+  },
+
+  handleOutboxEvent: (event) => {
+    const agentId = event.item.columnId;
+    if (event.type === "failed") {
+      console.error(`Failed to replay queued message for ${agentId}:`, event.error);
+    }
+
+    set((state) => {
+      const session = state.sessions[agentId];
+      if (!session) return state;
+
+      const updated: AgentSession = {
+        ...session,
+        messages: session.messages.map((msg) =>
+          msg.id === event.item.id
+            ? {
+                ...msg,
+                text: event.item.message,
+                pending: event.type === "replaying",
+              }
+            : msg
+        ),
+      };
+
+      return {
+        sessions: {
+          ...state.sessions,
+          // While replaying, mark the column busy so the run's lifecycle
+          // start isn't mistaken for a server-initiated announcement
+          [agentId]:
+            event.type === "replaying"
+              ? { ...updated, status: "thinking" }
+              : event.type === "sent"
+                ? withAssistantPlaceholder(updated, event.runId)
+                : updated,
+        },
+      };
+    });
+
+    if (event.type === "failed") {
+      abortedPrompts.delete(event.item.id);
+      get().failRun(agentId, null, runErrorFrom(event.error, event.item.message));
+    }
+
+    // Stopped while the replay waited for its ack: abort the run now
+    if (event.type === "sent" && abortedPrompts.delete(event.item.id)) {
+      get().markRunAborted(agentId, event.runId);
+      get()
+        .client?.abortRun(event.item.sessionKey, event.runId)
+        .catch((err) => console.warn(`[DeckStore] Failed to abort run for ${agentId}:`, err));
     }
   },
 
@@ -335,7 +953,29 @@ export const useDeckStore = create<DeckStore>((set, get) => ({
           [agentId]: {
             ...session,
             messages,
-            tokenCount: session.tokenCount + chunk.length, // approximate
+            // Estimate until sessions.usage reports the real count
+            tokenCount: session.tokenCount + estimateTokens(chunk),
+          },
+        },
+      };
+    });
+  },
+
+  appendReasoningChunk: (agentId, runId, chunk) => {
+    set((state) => {
+      const session = state.sessions[agentId];
+      if (!session) return state;
+
+      return {
+        sessions: {
+          ...state.sessions,
+          [agentId]: {
+            ...session,
+            messages: session.messages.map((msg) =>
+              msg.runId === runId && msg.streaming
+                ? { ...msg, reasoning: (msg.reasoning ?? "") + chunk }
+                : msg
+            ),
           },
         },
       };
@@ -343,16 +983,35 @@ export const useDeckStore = create<DeckStore>((set, get) => ({
   },
 
   finalizeMessage: (agentId, runId) => {
+    const needsResync = get().sessions[agentId]?.needsResync;
+
     set((state) => {
       const session = state.sessions[agentId];
       if (!session || !session.messages) return state;
 
-      const messages = (session.messages || []).map((msg) => {
-        if (msg.runId === runId) {
+      const usedTools = session.messages.some(
+        (msg) => msg.runId === runId && msg.toolUse
+      );
+      const messages = (session.messages || [])
+        // Drop the placeholder left after a run's last tool call
+        .filter(
+          (msg) =>
+            !(
+              usedTools &&
+              msg.runId === runId &&
+              msg.streaming &&
+              !msg.text &&
+              !msg.reasoning &&
+              !msg.aborted
+            )
+        )
+        .map((msg) => {
+          if (msg.runId !== runId) return msg;
+          if (msg.toolUse?.status === "running") {
+            return { ...msg, toolUse: { ...msg.toolUse, status: "done" as const } };
+          }
           return { ...msg, streaming: false };
-        }
-        return msg;
-      });
+        });
 
       return {
         sessions: {
@@ -361,11 +1020,286 @@ export const useDeckStore = create<DeckStore>((set, get) => ({
             ...session,
             messages,
             activeRunId: null,
-            status: "idle",
+            // A late "end" for a failed run must not hide the failure
+            status: messages.some((msg) => msg.runId === runId && msg.error)
+              ? "error"
+              : "idle",
+            needsResync: false,
           },
         },
       };
     });
+
+    if (needsResync) {
+      void get().resyncSessions([agentId]);
+    }
+    get().forwardRun(agentId, runId);
+    // The run's final (or error) event is handled; nothing forwards it again
+    forwardedRuns.delete(runId);
+  },
+
+  forwardRun: (agentId, runId) => {
+    const { pipelines, sessions, config } = get();
+    const session = sessions[agentId];
+    if (!session || forwardedRuns.has(runId)) return;
+
+    const runMessages = session.messages.filter((msg) => msg.runId === runId);
+    // Stopped or failed runs never forward
+    if (runMessages.some((msg) => msg.aborted || msg.error)) return;
+    const answer = runMessages
+      .filter((msg) => msg.role === "assistant" && msg.text)
+      .map((msg) => msg.text)
+      .join("\n\n");
+    if (!answer.trim()) return;
+
+    const start = session.messages.findIndex((msg) => msg.runId === runId);
+    const prompt = [...session.messages.slice(0, start)]
+      .reverse()
+      .find((msg) => msg.role === "user");
+
+    const forwards = forwardsFor(pipelines, agentId, answer, prompt?.pipeline);
+    if (forwards.length === 0) return;
+    forwardedRuns.add(runId);
+
+    const nameOf = (id: string) => config.agents.find((a) => a.id === id)?.name ?? id;
+    for (const { link, hop } of forwards) {
+      if (!sessions[link.toAgentId]) continue; // target column was removed
+      const text = renderTemplate(link.template, {
+        answer,
+        prompt: prompt?.text ?? "",
+        "from.name": nameOf(agentId),
+        "to.name": nameOf(link.toAgentId),
+        hop: hop.hop,
+      });
+      void get().sendMessage(link.toAgentId, text, { pipeline: hop });
+    }
+  },
+
+  markRunAborted: (agentId, runId) => {
+    set((state) => {
+      const session = state.sessions[agentId];
+      if (!session) return state;
+      return {
+        sessions: {
+          ...state.sessions,
+          [agentId]: {
+            ...session,
+            messages: session.messages.map((msg) => {
+              if (msg.runId !== runId) return msg;
+              if (msg.toolUse?.status === "running") {
+                return { ...msg, toolUse: { ...msg.toolUse, status: "error" as const } };
+              }
+              return msg.streaming ? { ...msg, aborted: true } : msg;
+            }),
+          },
+        },
+      };
+    });
+    get().finalizeMessage(agentId, runId);
+  },
+
+  failRun: (agentId, runId, error) => {
+    if (runId) {
+      const session = get().sessions[agentId];
+      // The lifecycle and chat streams can both report the same failure
+      if (session?.messages.some((msg) => msg.runId === runId && msg.error)) return;
+    }
+
+    set((state) => {
+      const session = state.sessions[agentId];
+      if (!session) return state;
+
+      const errorMsg: ChatMessage = {
+        id: makeId(),
+        role: "error",
+        text: error.message,
+        timestamp: Date.now(),
+        error: { ...error, prompt: error.prompt ?? promptFor(session, runId) },
+        ...(runId ? { runId } : {}),
+      };
+
+      return {
+        sessions: {
+          ...state.sessions,
+          [agentId]: {
+            ...session,
+            // An answer that never started has nothing worth keeping
+            messages: [
+              ...session.messages.filter(
+                (msg) =>
+                  !(runId && msg.runId === runId && msg.role === "assistant" && !msg.text && !msg.reasoning)
+              ),
+              errorMsg,
+            ],
+            activeRunId: null,
+            status: "error",
+          },
+        },
+      };
+    });
+
+    // Finalized only now, so pipelines see the error and don't forward the
+    // partial answer
+    if (runId) get().finalizeMessage(agentId, runId);
+  },
+
+  retryRun: async (agentId, errorMessageId) => {
+    const session = get().sessions[agentId];
+    const prompt = session?.messages.find((msg) => msg.id === errorMessageId)
+      ?.error?.prompt;
+    if (!session || !prompt) return;
+
+    set((state) => ({
+      sessions: {
+        ...state.sessions,
+        [agentId]: {
+          ...state.sessions[agentId],
+          messages: state.sessions[agentId].messages.filter(
+            (msg) => msg.id !== errorMessageId
+          ),
+        },
+      },
+    }));
+    await get().sendMessage(agentId, prompt, { resend: true });
+  },
+
+  broadcastMessage: (text, agentIds) => {
+    const broadcastId = makeId();
+    // sendMessage adds the prompt before its first await, so every target is
+    // tagged by the time this returns
+    for (const agentId of agentIds) {
+      get()
+        .sendMessage(agentId, text, { broadcastId })
+        .catch((err) => get().failRun(agentId, null, runErrorFrom(err, text)));
+    }
+    return broadcastId;
+  },
+
+  regenerateMessage: async (agentId, messageId) => {
+    const messages = get().sessions[agentId]?.messages ?? [];
+    const index = messages.findIndex((msg) => msg.id === messageId);
+    // The prompt of the turn this answer belongs to
+    const prompt = messages
+      .slice(0, index)
+      .reverse()
+      .find((msg) => msg.role === "user" && !msg.pending);
+    if (index === -1 || !prompt) return;
+
+    try {
+      await get().startVersionSession(agentId, prompt.id);
+    } catch (err) {
+      get().failRun(agentId, null, runErrorFrom(err, prompt.text));
+      return;
+    }
+    await get().sendMessage(agentId, prompt.text, {
+      resend: true,
+      versionOf: prompt.id,
+    });
+  },
+
+  editAndResend: async (agentId, messageId, text) => {
+    const messages = get().sessions[agentId]?.messages ?? [];
+    const index = messages.findIndex((msg) => msg.id === messageId);
+    if (index === -1) return;
+
+    // Editing the latest prompt re-runs that turn as a new version; editing
+    // an older one just sends the edited text as a new turn.
+    const original = messages[index];
+    const isLatest = !messages
+      .slice(index + 1)
+      .some(
+        (msg) =>
+          msg.role === "user" &&
+          !(original.versionGroup && msg.versionGroup === original.versionGroup)
+      );
+    if (!isLatest) {
+      await get().sendMessage(agentId, text);
+      return;
+    }
+    try {
+      await get().startVersionSession(agentId, messageId);
+    } catch (err) {
+      get().failRun(agentId, null, runErrorFrom(err, text));
+      return;
+    }
+    await get().sendMessage(agentId, text, { versionOf: messageId });
+  },
+
+  startVersionSession: async (agentId, promptId) => {
+    const { client } = get();
+    const agent = get().config.agents.find((a) => a.id === agentId);
+    const session = get().sessions[agentId];
+    // Offline, the re-run is queued for the current session like any prompt
+    if (!client?.connected || !agent || !session) return;
+
+    const context = seedMessages(contextBefore(session.messages, promptId));
+    const sessionKey = newSessionKey(agent);
+    if (context.length > 0) {
+      await client.injectMessage(sessionKey, buildVersionSeed(context), "version");
+    }
+    createdSessions.add(sessionKey);
+
+    // The transcript stays; only what the gateway reports about it is reset
+    set((state) => {
+      const current = state.sessions[agentId];
+      if (!current) return state;
+      return {
+        sessions: {
+          ...state.sessions,
+          [agentId]: {
+            ...current,
+            sessionKey,
+            usage: undefined,
+            // The new session holds nothing older than the seed
+            history: { cursor: null, fetched: 0, exhausted: true, loading: false },
+          },
+        },
+      };
+    });
+  },
+
+  abortRun: async (agentId) => {
+    const { client, sessions } = get();
+    const session = sessions[agentId];
+    if (!session) return;
+
+    const runId = session.activeRunId;
+    const { sessionKey } = routeFor(get(), agentId);
+
+    // Settle the column right away; the gateway's own end/aborted events
+    // for this run are no-ops once the message is finalized.
+    if (runId) {
+      get().markRunAborted(agentId, runId);
+    } else {
+      // The run may not be acked yet; sendMessage (or the outbox replay)
+      // aborts it when it is
+      const prompt = [...session.messages]
+        .reverse()
+        .find(
+          (msg) => msg.role === "user" && (!msg.pending || msg.id === client?.replayingId)
+        );
+      if (prompt && session.status !== "idle") abortedPrompts.add(prompt.id);
+      get().setAgentStatus(agentId, "idle");
+    }
+
+    try {
+      if (client?.connected) {
+        await client.abortRun(sessionKey, runId ?? undefined);
+      }
+    } catch (err) {
+      console.warn(`[DeckStore] Failed to abort run for ${agentId}:`, err);
+    }
+  },
+
+  abortAllRuns: async () => {
+    const active = Object.values(get().sessions).filter(
+      (s) =>
+        s.activeRunId !== null ||
+        s.status === "streaming" ||
+        s.status === "thinking" ||
+        s.status === "tool_use"
+    );
+    await Promise.all(active.map((s) => get().abortRun(s.agentId)));
   },
 
   handleGatewayEvent: (event) => {
@@ -373,20 +1307,31 @@ export const useDeckStore = create<DeckStore>((set, get) => ({
 
     switch (event.event) {
       // Agent streaming events
-      // Format: { runId, stream: "assistant"|"lifecycle"|"tool_use", data: {...}, sessionKey: "agent:<id>:<key>" }
+      // Format: { runId, stream: "assistant"|"thinking"|"lifecycle"|"tool", data: {...}, sessionKey: "agent:<agentId>:<key>" }
       case "agent": {
         const runId = payload.runId as string;
         const stream = payload.stream as string | undefined;
         const data = payload.data as Record<string, unknown> | undefined;
         const sessionKey = payload.sessionKey as string | undefined;
 
-        // Extract column ID from sessionKey "agent:main:<columnId>"
-        const parts = sessionKey?.split(":") ?? [];
-        const agentId = parts[2] ?? parts[1] ?? "main";
+        const agentId = columnFor(get(), sessionKey);
+        if (!agentId) break;
+
+        // Late frames for a run the user already stopped
+        const aborted = get().sessions[agentId]?.messages.some(
+          (msg) => msg.runId === runId && msg.aborted
+        );
+        if (aborted) break;
 
         if (stream === "assistant" && data?.delta) {
           get().appendMessageChunk(agentId, runId, data.delta as string);
           get().setAgentStatus(agentId, "streaming");
+        } else if (
+          (stream === "thinking" || stream === "reasoning") &&
+          data?.delta
+        ) {
+          get().appendReasoningChunk(agentId, runId, data.delta as string);
+          get().setAgentStatus(agentId, "thinking");
         } else if (stream === "lifecycle") {
           const phase = data?.phase as string | undefined;
           if (phase === "start") {
@@ -429,9 +1374,25 @@ export const useDeckStore = create<DeckStore>((set, get) => ({
             get().setAgentStatus(agentId, "thinking");
           } else if (phase === "end") {
             get().finalizeMessage(agentId, runId);
+          } else if (phase === "error") {
+            get().failRun(agentId, runId, runErrorFrom(data?.error ?? data));
           }
-        } else if (stream === "tool_use") {
-          get().setAgentStatus(agentId, "tool_use");
+        } else if (stream === "tool" || stream === "tool_use") {
+          const phase = (data?.phase as string | undefined) ?? "start";
+          set((state) => {
+            const session = state.sessions[agentId];
+            if (!session) return state;
+            return {
+              sessions: {
+                ...state.sessions,
+                [agentId]: withToolEvent(session, runId, data ?? {}),
+              },
+            };
+          });
+          get().setAgentStatus(
+            agentId,
+            phase === "start" || phase === "update" ? "tool_use" : "thinking"
+          );
         }
         break;
       }
@@ -459,6 +1420,19 @@ export const useDeckStore = create<DeckStore>((set, get) => ({
         break;
       }
 
+      // Agents created/updated/deleted by another client or the CLI
+      case "agents.changed": {
+        void get()
+          .syncAgentsFromGateway()
+          .then(() => {
+            const fresh = get().columnOrder.filter(
+              (id) => get().sessions[id]?.messages.length === 0
+            );
+            if (fresh.length > 0) return get().resyncSessions(fresh);
+          });
+        break;
+      }
+
       // Tick events (keep-alive, can update token counts, etc.)
       case "tick": {
         // Could update token usage, cost, etc.
@@ -468,48 +1442,77 @@ export const useDeckStore = create<DeckStore>((set, get) => ({
       // Context compaction dividers
       case "compaction": {
         const sessionKey = payload.sessionKey as string | undefined;
-        const parts = sessionKey?.split(":") ?? [];
-        const agentId = parts[2] ?? parts[1] ?? "main";
+        const agentId = columnFor(get(), sessionKey);
+        if (!agentId) break;
         const beforeTokens = (payload.beforeTokens as number) ?? 0;
         const afterTokens = (payload.afterTokens as number) ?? 0;
         const droppedMessages = (payload.droppedMessages as number) ?? 0;
-
-        const compactionMsg: ChatMessage = {
-          id: makeId(),
-          role: "compaction",
-          text: "",
-          timestamp: Date.now(),
-          compaction: { beforeTokens, afterTokens, droppedMessages },
-        };
+        const summary = typeof payload.summary === "string" ? payload.summary : undefined;
+        // Gateways that know which messages they summarized list them
+        const listed = Array.isArray(payload.dropped)
+          ? compactedPreviews(payload.dropped as RawHistoryMessage[])
+          : undefined;
+        const dividerId = makeId();
+        clearCompactionTimer(agentId);
 
         set((state) => {
           const session = state.sessions[agentId];
           if (!session) return state;
+          const compactionMsg: ChatMessage = {
+            id: dividerId,
+            role: "compaction",
+            text: "",
+            timestamp: Date.now(),
+            compaction: {
+              beforeTokens,
+              afterTokens,
+              droppedMessages,
+              ...(summary ? { summary } : {}),
+              ...(listed ? { summarized: listed } : {}),
+            },
+          };
           return {
             sessions: {
               ...state.sessions,
               [agentId]: {
                 ...session,
                 messages: [...session.messages, compactionMsg],
+                compacting: false,
               },
             },
           };
         });
+        if (!listed && sessionKey && droppedMessages > 0) {
+          void get().loadSummarizedMessages(agentId, sessionKey, dividerId);
+        }
         break;
       }
 
       // Real usage data from gateway
       case "sessions.usage": {
         const sessionKey = payload.sessionKey as string | undefined;
-        const parts = sessionKey?.split(":") ?? [];
-        const agentId = parts[2] ?? parts[1] ?? "main";
-        const usage = payload.usage as SessionUsage | undefined;
+        const agentId = columnFor(get(), sessionKey);
+        if (!agentId) break;
+        const reported = payload.usage as SessionUsage | undefined;
 
-        if (usage) {
+        if (reported) {
           set((state) => {
             const session = state.sessions[agentId];
             if (!session) return state;
+            const agent = state.config.agents.find((a) => a.id === agentId);
+            // Price the usage from the model registry if the gateway didn't
+            const usage = withEstimatedCost(reported, state.availableModels, agent?.model);
+            const usageLedger = recordUsage(state.usageLedger, {
+              sessionKey: session.sessionKey,
+              agentId,
+              agentName: agent?.name ?? agentId,
+              model: usage.model || agent?.model || state.defaultModel || "unknown",
+              usage,
+              at: Date.now(),
+              fresh: createdSessions.delete(session.sessionKey),
+            });
             return {
+              usageLedger,
               sessions: {
                 ...state.sessions,
                 [agentId]: {
@@ -520,6 +1523,7 @@ export const useDeckStore = create<DeckStore>((set, get) => ({
               },
             };
           });
+          saveUsageLedger(get().usageLedger);
         }
         break;
       }
@@ -532,14 +1536,35 @@ export const useDeckStore = create<DeckStore>((set, get) => ({
         const runId = payload.runId as string | undefined;
         const sessionKey = (payload.sessionKey ?? payload.session) as string | undefined;
 
-        // Extract column ID from sessionKey "agent:main:<columnId>"
-        const parts = sessionKey?.split(":") ?? [];
-        const agentId = parts[2] ?? parts[1] ?? "main";
+        const agentId = columnFor(get(), sessionKey);
+        if (!agentId) break;
 
         const session = get().sessions[agentId];
         if (!session) break;
 
-        // Skip delta/error/aborted — only act on "final" completed messages
+        // Run stopped (by us or another client) — settle its partial answer
+        if (state === "aborted") {
+          if (runId && session.messages.some((m) => m.runId === runId && m.streaming)) {
+            get().markRunAborted(agentId, runId);
+          }
+          break;
+        }
+
+        if (state === "error") {
+          if (runId && session.messages.some((m) => m.runId === runId)) {
+            get().failRun(
+              agentId,
+              runId,
+              runErrorFrom({
+                code: payload.errorCode,
+                message: payload.errorMessage ?? payload.error,
+              })
+            );
+          }
+          break;
+        }
+
+        // Skip deltas — only act on "final" completed messages
         if (state !== "final") break;
 
         // Extract text from the message content array
@@ -613,8 +1638,326 @@ export const useDeckStore = create<DeckStore>((set, get) => ({
     }
   },
 
-  createAgentOnGateway: async (agent) => {
+  resyncSessions: async (agentIds) => {
+    const { client } = get();
+    if (!client?.connected) return;
+
+    // Imported columns have no gateway session to sync with
+    const ids = (agentIds ?? Object.keys(get().sessions)).filter(
+      (id) => !isReadOnly(get(), id)
+    );
+    await Promise.all(
+      ids.map(async (agentId) => {
+        const { sessionKey } = routeFor(get(), agentId);
+        try {
+          const res = (await client.chatHistory(
+            sessionKey,
+            HISTORY_PAGE_SIZE
+          )) as ChatHistoryResponse;
+          const parsed = parseHistoryMessages(res?.messages);
+          let settledRunId: string | null = null;
+
+          set((state) => {
+            const session = state.sessions[agentId];
+            if (!session || session.sessionKey !== sessionKey) return state;
+
+            const { clearedAt } = session;
+            const remote = clearedAt
+              ? parsed.filter((m) => m.timestamp > clearedAt)
+              : parsed;
+            const messages = mergeHistory(session.messages, remote);
+
+            // If the transcript already holds the final answer for the run
+            // we were streaming, the end event was missed — settle it now.
+            const runSettled =
+              session.activeRunId !== null &&
+              !messages.some(
+                (m) => m.runId === session.activeRunId && m.streaming
+              );
+            if (runSettled) settledRunId = session.activeRunId;
+
+            return {
+              sessions: {
+                ...state.sessions,
+                [agentId]: {
+                  ...session,
+                  messages,
+                  // A compaction event missed while disconnected is in the history
+                  compacting: false,
+                  tokenCount: session.usage
+                    ? session.tokenCount
+                    : messages.reduce((sum, m) => sum + estimateTokens(m.text), 0),
+                  // Paging starts from the first page; later resyncs keep it
+                  history:
+                    session.history ?? pagingFrom(res, HISTORY_PAGE_SIZE, 0),
+                  ...(runSettled
+                    ? { activeRunId: null, status: "idle" as const }
+                    : {}),
+                },
+              },
+            };
+          });
+
+          clearCompactionTimer(agentId);
+          // The missed end event would have sent the answer down its pipelines
+          if (settledRunId) get().forwardRun(agentId, settledRunId);
+        } catch (err) {
+          console.warn(`[DeckStore] Failed to resync history for ${agentId}:`, err);
+        }
+      })
+    );
+  },
+
+  loadOlderHistory: async (agentId) => {
+    const { client } = get();
+    const session = get().sessions[agentId];
+    const paging = session?.history;
+    if (
+      !client?.connected ||
+      !paging ||
+      paging.exhausted ||
+      paging.loading ||
+      isReadOnly(get(), agentId)
+    ) {
+      return;
+    }
+
+    const sessionKey = session.sessionKey;
+    const setPaging = (history: AgentSession["history"]) =>
+      set((state) => {
+        const current = state.sessions[agentId];
+        if (!current || current.sessionKey !== sessionKey) return state;
+        return {
+          sessions: { ...state.sessions, [agentId]: { ...current, history } },
+        };
+      });
+
+    setPaging({ ...paging, loading: true });
+
+    try {
+      let older: ChatHistoryResponse["messages"];
+      let next: AgentSession["history"];
+
+      if (paging.cursor) {
+        const res = (await client.chatHistory(
+          sessionKey,
+          HISTORY_PAGE_SIZE,
+          paging.cursor
+        )) as ChatHistoryResponse;
+        older = res?.messages;
+        next = pagingFrom(res, HISTORY_PAGE_SIZE, paging.fetched);
+      } else {
+        // No cursor support: widen the window and keep the part we lack
+        const requested = paging.fetched + HISTORY_PAGE_SIZE;
+        const res = (await client.chatHistory(
+          sessionKey,
+          requested
+        )) as ChatHistoryResponse;
+        const raw = res?.messages ?? [];
+        older = raw.slice(0, Math.max(0, raw.length - paging.fetched));
+        next = {
+          cursor: null,
+          fetched: raw.length,
+          exhausted: raw.length < requested,
+          loading: false,
+        };
+      }
+
+      const parsed = parseHistoryMessages(older);
+      const before = get().sessions[agentId]?.messages;
+      set((state) => {
+        const current = state.sessions[agentId];
+        if (!current || current.sessionKey !== sessionKey) return state;
+        return {
+          sessions: {
+            ...state.sessions,
+            [agentId]: {
+              ...current,
+              messages: prependHistory(current.messages, parsed),
+              history: next,
+            },
+          },
+        };
+      });
+
+      // The page was already loaded (e.g. from the cached transcript) — keep going
+      if (get().sessions[agentId]?.messages === before && !next.exhausted) {
+        void get().loadOlderHistory(agentId);
+      }
+    } catch (err) {
+      console.warn(`[DeckStore] Failed to load older history for ${agentId}:`, err);
+      setPaging({ ...paging, loading: false });
+    }
+  },
+
+  syncAgentsFromGateway: async () => {
+    const { client } = get();
+    if (!client?.connected) return;
+
+    let remote: GatewayAgentInfo[];
+    try {
+      ({ agents: remote } = await client.listAgents());
+    } catch (err) {
+      console.warn("[DeckStore] agents.list failed, keeping current columns:", err);
+      return;
+    }
+    if (remote.length === 0) return;
+
+    set((state) => {
+      const existing = new Map(state.config.agents.map((a) => [a.id, a]));
+      const agents = [
+        ...remote.map((info, i) =>
+          buildAgentFromGateway(info, i, existing.get(info.id), state.defaultModel)
+        ),
+        // Scratch columns are local-only and never reconciled away
+        ...state.config.agents.filter(
+          (a) => a.scratch && !remote.some((r) => r.id === a.id)
+        ),
+      ];
+      const ids = agents.map((a) => a.id);
+
+      const sessions: Record<string, AgentSession> = {};
+      for (const agent of agents) {
+        sessions[agent.id] = state.sessions[agent.id] ?? {
+          ...createSession(agent),
+          connected: true,
+        };
+      }
+
+      const columnOrder = state.columnOrder.filter((id) => ids.includes(id));
+      for (const id of ids) {
+        if (!columnOrder.includes(id)) columnOrder.push(id);
+      }
+
+      return { config: { ...state.config, agents }, sessions, columnOrder };
+    });
+  },
+
+  listColumnSessions: async (agentId) => {
+    const { client, config } = get();
+    const agent = config.agents.find((a) => a.id === agentId);
+    if (!client?.connected || !agent) return [];
+
+    const sessions = await client.listSessions({ agentId: gatewayAgentFor(agent) });
+    return sessions
+      .filter((s) => isColumnSession(agent, s.key))
+      .sort((a, b) => (b.updatedAt ?? 0) - (a.updatedAt ?? 0));
+  },
+
+  switchSession: (agentId, sessionKey) => {
+    const agent = get().config.agents.find((a) => a.id === agentId);
+    const session = get().sessions[agentId];
+    if (!agent || !session || session.sessionKey === sessionKey) return;
+
+    set((state) => ({
+      sessions: {
+        ...state.sessions,
+        [agentId]: {
+          ...createSession(agent, sessionKey),
+          connected: session.connected,
+          // Prompts queued for the old session stay visible until they send
+          messages: session.messages.filter((m) => m.pending),
+        },
+      },
+    }));
+    void get().resyncSessions([agentId]);
+  },
+
+  startNewSession: (agentId) => {
+    const agent = get().config.agents.find((a) => a.id === agentId);
+    if (!agent) return;
+    const sessionKey = newSessionKey(agent);
+    createdSessions.add(sessionKey);
+    get().switchSession(agentId, sessionKey);
+  },
+
+  clearMessages: (agentId) => {
+    set((state) => {
+      const session = state.sessions[agentId];
+      if (!session) return state;
+      return {
+        sessions: {
+          ...state.sessions,
+          [agentId]: {
+            ...session,
+            messages: session.messages.filter((msg) => msg.pending),
+            tokenCount: 0,
+            clearedAt: Date.now(),
+            history: { cursor: null, fetched: 0, exhausted: true, loading: false },
+          },
+        },
+      };
+    });
+  },
+
+  loadSummarizedMessages: async (agentId, sessionKey, dividerId) => {
+    const { client } = get();
+    if (!client?.connected) return;
+    try {
+      const res = (await client.chatHistory(
+        sessionKey,
+        COMPACTION_LOOKBACK
+      )) as ChatHistoryResponse;
+      const history = res?.messages ?? [];
+      const { exhausted } = pagingFrom(res, COMPACTION_LOOKBACK, 0);
+      set((state) => {
+        const session = state.sessions[agentId];
+        const index = session?.messages.findIndex((m) => m.id === dividerId) ?? -1;
+        const divider = session?.messages[index];
+        if (!divider?.compaction) return state;
+        const summarized = summarizedAway(history, divider.compaction.droppedMessages, exhausted);
+        if (!summarized) return state;
+        const messages = [...session.messages];
+        messages[index] = { ...divider, compaction: { ...divider.compaction, summarized } };
+        return { sessions: { ...state.sessions, [agentId]: { ...session, messages } } };
+      });
+    } catch (err) {
+      console.warn(`[DeckStore] Failed to load summarized messages for ${agentId}:`, err);
+    }
+  },
+
+  compactSession: async (agentId) => {
     const { client } = get();
+    if (!client?.connected) throw new Error("Gateway is not connected");
+    const { sessionKey } = routeFor(get(), agentId);
+    const setCompacting = (compacting: boolean) =>
+      set((state) => {
+        const session = state.sessions[agentId];
+        if (!session || session.sessionKey !== sessionKey) return state;
+        return { sessions: { ...state.sessions, [agentId]: { ...session, compacting } } };
+      });
+
+    clearCompactionTimer(agentId);
+    setCompacting(true);
+    let res: { compacted?: boolean; reason?: string } | undefined;
+    try {
+      // The gateway reports the result with a "compaction" event
+      res = (await client.compactSession(sessionKey)) as typeof res;
+    } catch (err) {
+      setCompacting(false);
+      throw err;
+    }
+    // No event follows when there was nothing to compact
+    if (res?.compacted === false) {
+      setCompacting(false);
+      throw new Error(res.reason || "Nothing to compact yet");
+    }
+    compactionTimers.set(
+      agentId,
+      setTimeout(() => {
+        compactionTimers.delete(agentId);
+        console.warn(`[DeckStore] No compaction event for ${agentId}; giving up`);
+        setCompacting(false);
+      }, COMPACTION_TIMEOUT_MS)
+    );
+  },
+
+  createAgentOnGateway: async (agent, seed) => {
+    const { client } = get();
+    if (agent.scratch) {
+      get().addAgent(agent, seed);
+      return;
+    }
     try {
       if (client?.connected) {
         await client.createAgent({
@@ -623,31 +1966,189 @@ export const useDeckStore = create<DeckStore>((set, get) => ({
           model: agent.model,
           context: agent.context,
           shell: agent.shell,
+          workspace: agent.workspace,
         });
       }
     } catch (err) {
-      console.warn("[DeckStore] Gateway createAgent failed, adding locally:", err);
+      console.warn("[DeckStore] Gateway createAgent failed, adding as scratch column:", err);
+      get().addAgent({ ...agent, scratch: true }, seed);
+      return;
     }
-    get().addAgent(agent);
+    // Without a connection the column stays local until created elsewhere
+    get().addAgent(client?.connected ? agent : { ...agent, scratch: true }, seed);
   },
 
-  deleteAgentOnGateway: async (agentId) => {
+  importTranscript: (column) => {
+    const agent: AgentConfig = {
+      id: `import-${makeId()}`,
+      name: `${column.agent.name} (import)`,
+      icon: "⤓",
+      accent: "#71717a",
+      model: column.agent.model,
+      context: column.agent.context ?? "",
+      scratch: true,
+      readOnly: true,
+    };
+    get().addAgent(agent, column.messages);
+    if (column.usage) {
+      const usage = column.usage;
+      set((state) => ({
+        sessions: {
+          ...state.sessions,
+          [agent.id]: { ...state.sessions[agent.id], usage },
+        },
+      }));
+    }
+    return agent.id;
+  },
+
+  forkColumn: async (agentId, messageId, versionChoices) => {
+    const { config, sessions } = get();
+    const source = config.agents.find((a) => a.id === agentId);
+    const session = sessions[agentId];
+    if (!source || !session) return;
+
+    const shown = resolveVersions(session.messages, versionChoices ?? {}).map(
+      (item) => item.message
+    );
+    const end = shown.findIndex((msg) => msg.id === messageId);
+    if (end === -1) return;
+    const seed = seedMessages(shown.slice(0, end + 1));
+
+    // Forking an imported transcript is how it gets continued
+    const { readOnly: _, ...base } = source;
+    const fork: AgentConfig = {
+      ...base,
+      id: `${source.id}-fork-${Date.now().toString(36)}`,
+      name: `${source.name} (fork)`,
+      forkedFrom: {
+        agentId,
+        name: source.name,
+        messageId,
+        at: Date.now(),
+      },
+    };
+    await get().createAgentOnGateway(fork, seed);
+
+    // Give the agent the same context the column shows
     const { client } = get();
+    const forkSession = get().sessions[fork.id];
+    if (!client?.connected || !forkSession || seed.length === 0) return;
     try {
-      if (client?.connected) {
+      await client.injectMessage(
+        forkSession.sessionKey,
+        buildForkSeed(source.name, seed),
+        "fork"
+      );
+    } catch (err) {
+      console.warn(`[DeckStore] Failed to seed forked session for ${fork.id}:`, err);
+    }
+  },
+
+  deleteAgentOnGateway: async (agentId) => {
+    const { client, config } = get();
+    const agent = config.agents.find((a) => a.id === agentId);
+    try {
+      if (client?.connected && !agent?.scratch) {
         await client.deleteAgent(agentId);
       }
     } catch (err) {
       console.warn("[DeckStore] Gateway deleteAgent failed, removing locally:", err);
     }
     get().removeAgent(agentId);
+
+    // The column's sessions won't report usage again
+    if (agent) {
+      const usageLedger = forgetSessions(get().usageLedger, (key) =>
+        isColumnSession(agent, key)
+      );
+      set({ usageLedger });
+      saveUsageLedger(usageLedger);
+    }
   },
 
   disconnect: () => {
+    stopPersistence?.();
     get().client?.disconnect();
     set({ gatewayConnected: false, client: null });
   },
 
+  setGatewayInfo: (info) => {
+    set({
+      availableModels: info.availableModels,
+      defaultModel: info.defaultModel,
+    });
+  },
+
+  setShowReasoning: (show) => {
+    set({ showReasoning: show });
+  },
+
+  focusMessage: (agentId, messageId) => {
+    set({ focusedMessage: { agentId, messageId, at: Date.now() } });
+  },
+
+  savePipeline: (pipeline) => {
+    set((state) => ({
+      pipelines: state.pipelines.some((p) => p.id === pipeline.id)
+        ? state.pipelines.map((p) => (p.id === pipeline.id ? pipeline : p))
+        : [...state.pipelines, pipeline],
+    }));
+  },
+
+  deletePipeline: (pipelineId) => {
+    set((state) => ({
+      pipelines: state.pipelines.filter((p) => p.id !== pipelineId),
+    }));
+  },
+
+  saveSnippet: (snippet) => {
+    const { snippets } = get();
+    const next = snippets.some((s) => s.id === snippet.id)
+      ? snippets.map((s) => (s.id === snippet.id ? snippet : s))
+      : [...snippets, snippet];
+    set({ snippets: next });
+    saveSnippets(next);
+  },
+
+  deleteSnippet: (snippetId) => {
+    const next = get().snippets.filter((s) => s.id !== snippetId);
+    set({ snippets: next });
+    saveSnippets(next);
+  },
+
+  importSnippets: (imported) => {
+    const next = mergeSnippets(get().snippets, imported);
+    set({ snippets: next });
+    saveSnippets(next);
+  },
+
+  clearUsageHistory: () => {
+    // Keep the baselines so the next snapshot isn't booked again in full
+    const next = { ...emptyLedger(), lastSeen: get().usageLedger.lastSeen };
+    set({ usageLedger: next });
+    saveUsageLedger(next);
+  },
+
+  setDeckBudget: (budget) => {
+    set({ deckBudget: budget });
+  },
+
+  overrideBudget: (agentId) => {
+    const agent = get().config.agents.find((a) => a.id === agentId);
+    const { deckBudget, usageLedger } = get();
+    const overrides = { ...get().budgetOverrides };
+    // Column and deck limits can both be crossed; lift each in turn
+    for (;;) {
+      const check = checkBudgets(agent, deckBudget, usageLedger, overrides);
+      if (check?.level !== "hard") break;
+      const budget = check.scope === DECK_BUDGET_SCOPE ? deckBudget : agent?.budget;
+      if (!budget) break;
+      overrides[check.scope] = periodKey(budget.period);
+    }
+    set({ budgetOverrides: overrides });
+  },
+
   setTheme: (themeId: string) => {
     set({ theme: themeId });
     const theme = themes[themeId];
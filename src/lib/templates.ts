@@ -0,0 +1,27 @@
+/**
+ * Prompt templates.
+ *
+ * Templates use `{{name}}` placeholders; names may be dotted
+ * (`{{from.name}}`). Placeholders without a value are left as they are.
+ */
+
+const PLACEHOLDER = /\{\{\s*([\w.]+)\s*\}\}/g;
+
+export function renderTemplate(
+  template: string,
+  vars: Record<string, string | number | undefined>
+): string {
+  return template.replace(PLACEHOLDER, (match, name: string) => {
+    const value = vars[name];
+    return value === undefined ? match : String(value);
+  });
+}
+
+/** Placeholder names used in a template, in order of first appearance */
+export function templateVariables(template: string): string[] {
+  const names: string[] = [];
+  for (const [, name] of template.matchAll(PLACEHOLDER)) {
+    if (!names.includes(name)) names.push(name);
+  }
+  return names;
+}
@@ -0,0 +1,268 @@
+/**
+ * Usage history.
+ *
+ * sessions.usage reports cumulative counters per gateway session. The ledger
+ * remembers the last snapshot of each session and books the difference to a
+ * bucket per day, agent and model, so spend can be charted over time. Like
+ * snippets, the ledger is stored under one localStorage key for all gateways.
+ * Snapshots of sessions that stop reporting are forgotten after MAX_DAYS, or
+ * as soon as their column is deleted.
+ */
+
+import type {
+  SessionUsage,
+  UsageBucket,
+  UsageLedger,
+  UsageSnapshot,
+  UsageTotals,
+} from "../types";
+
+const STORAGE_KEY = "openclaw.deck.usage.v1";
+
+/** Days of history kept; older buckets and snapshots are dropped when recording */
+const MAX_DAYS = 365;
+const DAY_MS = 86_400_000;
+
+export function emptyLedger(): UsageLedger {
+  return { buckets: [], lastSeen: {} };
+}
+
+export function loadUsageLedger(): UsageLedger {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return emptyLedger();
+    const data = JSON.parse(raw) as Partial<UsageLedger>;
+    // Snapshots saved before they were timestamped count as seen now
+    const now = Date.now();
+    const lastSeen: Record<string, UsageSnapshot> = {};
+    for (const [key, snapshot] of Object.entries(data.lastSeen ?? {})) {
+      lastSeen[key] = { ...snapshot, at: snapshot.at ?? now };
+    }
+    return {
+      buckets: Array.isArray(data.buckets) ? data.buckets : [],
+      lastSeen,
+    };
+  } catch {
+    return emptyLedger();
+  }
+}
+
+export function saveUsageLedger(ledger: UsageLedger): void {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(ledger));
+  } catch {
+    // storage full or unavailable — history just won't persist
+  }
+}
+
+/** Local YYYY-MM-DD for a timestamp */
+export function dayOf(ts: number): string {
+  const d = new Date(ts);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function totalsOf(usage: SessionUsage): UsageTotals {
+  return {
+    inputTokens: usage.inputTokens ?? 0,
+    outputTokens: usage.outputTokens ?? 0,
+    totalTokens: usage.totalTokens ?? 0,
+    costCents: usage.costCents ?? 0,
+  };
+}
+
+/**
+ * Book a usage snapshot. The first snapshot of a session only counts in full
+ * when the deck created the session (`fresh`); otherwise it is a baseline for
+ * later snapshots, since it includes spend from before the deck saw it. A
+ * snapshot with a counter lower than the last one counts in full: the session
+ * was reset, so its counters started again from zero.
+ */
+export function recordUsage(
+  ledger: UsageLedger,
+  entry: {
+    sessionKey: string;
+    agentId: string;
+    agentName: string;
+    model: string;
+    usage: SessionUsage;
+    at: number;
+    /** The session was started by the deck, so all of its usage is new */
+    fresh: boolean;
+  }
+): UsageLedger {
+  const current = totalsOf(entry.usage);
+  const previous = ledger.lastSeen[entry.sessionKey];
+  const lastSeen = forgetStale(
+    { ...ledger.lastSeen, [entry.sessionKey]: { ...current, at: entry.at } },
+    entry.at
+  );
+
+  const reset =
+    !!previous &&
+    (current.inputTokens < previous.inputTokens ||
+      current.outputTokens < previous.outputTokens ||
+      current.totalTokens < previous.totalTokens ||
+      current.costCents < previous.costCents);
+  if (!previous && !entry.fresh) return { ...ledger, lastSeen };
+  const delta: UsageTotals =
+    previous && !reset
+      ? {
+          inputTokens: current.inputTokens - previous.inputTokens,
+          outputTokens: current.outputTokens - previous.outputTokens,
+          totalTokens: current.totalTokens - previous.totalTokens,
+          costCents: current.costCents - previous.costCents,
+        }
+      : current;
+  if (delta.totalTokens <= 0 && delta.costCents <= 0) {
+    return { ...ledger, lastSeen };
+  }
+
+  const day = dayOf(entry.at);
+  const oldest = dayOf(entry.at - MAX_DAYS * DAY_MS);
+  const buckets = ledger.buckets.filter((b) => b.day >= oldest);
+  const index = buckets.findIndex(
+    (b) => b.day === day && b.agentId === entry.agentId && b.model === entry.model
+  );
+  const bucket: UsageBucket =
+    index === -1
+      ? {
+          day,
+          agentId: entry.agentId,
+          agentName: entry.agentName,
+          model: entry.model,
+          inputTokens: 0,
+          outputTokens: 0,
+          totalTokens: 0,
+          costCents: 0,
+        }
+      : buckets[index];
+  const updated: UsageBucket = {
+    ...bucket,
+    agentName: entry.agentName,
+    inputTokens: bucket.inputTokens + delta.inputTokens,
+    outputTokens: bucket.outputTokens + delta.outputTokens,
+    totalTokens: bucket.totalTokens + delta.totalTokens,
+    costCents: bucket.costCents + delta.costCents,
+  };
+  if (index === -1) buckets.push(updated);
+  else buckets[index] = updated;
+
+  return { buckets, lastSeen };
+}
+
+/** Snapshots of sessions that haven't reported within MAX_DAYS of `now` */
+function forgetStale(
+  lastSeen: Record<string, UsageSnapshot>,
+  now: number
+): Record<string, UsageSnapshot> {
+  const cutoff = now - MAX_DAYS * DAY_MS;
+  return Object.fromEntries(Object.entries(lastSeen).filter(([, s]) => s.at >= cutoff));
+}
+
+/** Drop the snapshots of sessions that no longer exist */
+export function forgetSessions(
+  ledger: UsageLedger,
+  gone: (sessionKey: string) => boolean
+): UsageLedger {
+  return {
+    ...ledger,
+    lastSeen: Object.fromEntries(
+      Object.entries(ledger.lastSeen).filter(([key]) => !gone(key))
+    ),
+  };
+}
+
+// ─── Reports ───
+
+export interface UsageSummary {
+  key: string;
+  label: string;
+  totalTokens: number;
+  costCents: number;
+}
+
+/** Buckets from the last `days` days, today included */
+export function bucketsSince(buckets: UsageBucket[], days: number, now = Date.now()): UsageBucket[] {
+  const oldest = dayOf(now - (days - 1) * DAY_MS);
+  return buckets.filter((b) => b.day >= oldest);
+}
+
+/** One entry per day of the range, oldest first, zero-filled */
+export function dailyTotals(buckets: UsageBucket[], days: number, now = Date.now()): UsageSummary[] {
+  const byDay = new Map<string, UsageSummary>();
+  for (let i = days - 1; i >= 0; i--) {
+    const day = dayOf(now - i * DAY_MS);
+    byDay.set(day, { key: day, label: day.slice(5), totalTokens: 0, costCents: 0 });
+  }
+  for (const b of buckets) {
+    const entry = byDay.get(b.day);
+    if (!entry) continue;
+    entry.totalTokens += b.totalTokens;
+    entry.costCents += b.costCents;
+  }
+  return [...byDay.values()];
+}
+
+/** Totals grouped by model or agent, largest spend first */
+export function totalsBy(buckets: UsageBucket[], field: "model" | "agentId"): UsageSummary[] {
+  const groups = new Map<string, UsageSummary>();
+  for (const b of buckets) {
+    const key = b[field];
+    const entry = groups.get(key) ?? {
+      key,
+      label: field === "model" ? b.model : b.agentName,
+      totalTokens: 0,
+      costCents: 0,
+    };
+    entry.totalTokens += b.totalTokens;
+    entry.costCents += b.costCents;
+    groups.set(key, entry);
+  }
+  return [...groups.values()].sort(
+    (a, b) => b.costCents - a.costCents || b.totalTokens - a.totalTokens
+  );
+}
+
+export function formatCost(cents: number): string {
+  return `$${(cents / 100).toFixed(2)}`;
+}
+
+// ─── CSV ───
+
+function csvField(value: string | number): string {
+  // Text that a spreadsheet would run as a formula is kept as text
+  const text =
+    typeof value === "string" && /^[=+\-@]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function usageToCsv(buckets: UsageBucket[]): string {
+  const header = [
+    "day",
+    "agent_id",
+    "agent_name",
+    "model",
+    "input_tokens",
+    "output_tokens",
+    "total_tokens",
+    "cost_usd",
+  ];
+  const rows = [...buckets]
+    .sort((a, b) => a.day.localeCompare(b.day) || a.agentId.localeCompare(b.agentId))
+    .map((b) =>
+      [
+        b.day,
+        b.agentId,
+        b.agentName,
+        b.model,
+        b.inputTokens,
+        b.outputTokens,
+        b.totalTokens,
+        (b.costCents / 100).toFixed(4),
+      ]
+        .map(csvField)
+        .join(",")
+    );
+  return [header.join(","), ...rows].join("\n") + "\n";
+}
@@ -0,0 +1,130 @@
+/**
+ * Answer versions.
+ *
+ * Regenerating an answer or editing the last prompt re-runs that turn on the
+ * gateway, which appends it to the session like any other turn. Locally the
+ * re-run turns share a `versionGroup` with the turn they redo, and the column
+ * shows one version of the group at a time.
+ *
+ * A gateway session is linear, so each re-run starts a fresh session seeded
+ * with the conversation before the turn (see lib/fork.ts) and the column
+ * moves to it. Versions are answered independently of each other; new turns
+ * continue the session of the newest version.
+ *
+ * A turn is a user message plus everything up to the next user message.
+ */
+
+import type { ChatMessage } from "../types";
+
+export interface VersionInfo {
+  group: string;
+  /** Zero-based index of the version shown */
+  index: number;
+  count: number;
+}
+
+export interface TranscriptItem {
+  message: ChatMessage;
+  /** Set on the message that carries the version pager */
+  versions?: VersionInfo;
+  /** True for messages of the last turn (the only one that can be re-run) */
+  lastTurn: boolean;
+}
+
+interface Turn {
+  user?: ChatMessage;
+  rest: ChatMessage[];
+}
+
+function splitTurns(messages: ChatMessage[]): Turn[] {
+  const turns: Turn[] = [];
+  let current: Turn = { rest: [] };
+  for (const msg of messages) {
+    if (msg.role === "user") {
+      if (current.user || current.rest.length > 0) turns.push(current);
+      current = { user: msg, rest: [] };
+    } else {
+      current.rest.push(msg);
+    }
+  }
+  if (current.user || current.rest.length > 0) turns.push(current);
+  return turns;
+}
+
+/**
+ * Flatten a transcript into what the column renders: one version per group
+ * (the chosen one, or the newest), with re-sent prompts folded into the
+ * prompt they repeat.
+ */
+export function resolveVersions(
+  messages: ChatMessage[],
+  choices: Record<string, number>
+): TranscriptItem[] {
+  const turns = splitTurns(messages);
+  const items: TranscriptItem[] = [];
+
+  let i = 0;
+  while (i < turns.length) {
+    const group = turns[i].user?.versionGroup;
+    let end = i + 1;
+    if (group) {
+      while (end < turns.length && turns[end].user?.versionGroup === group) end++;
+    }
+    const lastTurn = end === turns.length;
+    const versions = turns.slice(i, end);
+    const index = Math.min(
+      Math.max(choices[group ?? ""] ?? versions.length - 1, 0),
+      versions.length - 1
+    );
+    const turn = versions[index];
+
+    // A re-sent prompt is shown as the prompt it repeats
+    const user = versions
+      .slice(0, index + 1)
+      .reverse()
+      .find((t) => t.user && !t.user.resent)?.user;
+    if (user) items.push({ message: user, lastTurn });
+
+    const rest: TranscriptItem[] = turn.rest.map((message) => ({ message, lastTurn }));
+    items.push(...rest);
+
+    if (group && versions.length > 1) {
+      const info: VersionInfo = { group, index, count: versions.length };
+      const answer = [...rest].reverse().find((it) => it.message.role === "assistant");
+      const carrier = answer ?? items[items.length - 1];
+      if (carrier) carrier.versions = info;
+    }
+
+    i = end;
+  }
+
+  return items;
+}
+
+/** The version that holds a message, for messages inside a version group */
+export function versionOf(messages: ChatMessage[], messageId: string): VersionInfo | undefined {
+  const turns = splitTurns(messages);
+  const at = turns.findIndex(
+    (t) => t.user?.id === messageId || t.rest.some((m) => m.id === messageId)
+  );
+  const group = turns[at]?.user?.versionGroup;
+  if (!group) return undefined;
+  let start = at;
+  while (start > 0 && turns[start - 1].user?.versionGroup === group) start--;
+  let end = at + 1;
+  while (end < turns.length && turns[end].user?.versionGroup === group) end++;
+  return { group, index: at - start, count: end - start };
+}
+
+/**
+ * The conversation before the turn started by `promptId` (or by an earlier
+ * version of it), as the column shows it with each group's newest version.
+ */
+export function contextBefore(messages: ChatMessage[], promptId: string): ChatMessage[] {
+  const group = messages.find((m) => m.id === promptId)?.versionGroup;
+  const start = messages.findIndex(
+    (m) => m.role === "user" && (m.id === promptId || (!!group && m.versionGroup === group))
+  );
+  if (start === -1) return [];
+  return resolveVersions(messages.slice(0, start), {}).map((item) => item.message);
+}
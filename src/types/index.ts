@@ -14,7 +14,7 @@ export interface GatewayResponse {
   id: string;
   ok: boolean;
   payload?: unknown;
-  error?: { code: string; message: string };
+  error?: { code: string; message: string; details?: unknown };
 }
 
 /** Inbound event frame (streaming, presence, ticks) */
@@ -28,6 +28,11 @@ export interface GatewayEvent {
 
 export type GatewayFrame = GatewayRequest | GatewayResponse | GatewayEvent;
 
+/** Events were lost on the current connection (detected via seq/stateVersion) */
+export type SequenceGap =
+  | { kind: "seq"; expected: number; received: number }
+  | { kind: "stateVersion"; previous: number; received: number };
+
 // ─── Agent Types ───
 
 export type AgentStatus =
@@ -51,22 +56,88 @@ export interface AgentConfig {
   context: string;
   /** Agent envelope runtime shell (#1835) */
   shell?: string;
+  /** Local-only column with no agent of its own on the gateway */
+  scratch?: boolean;
+  /** Set on columns created by "fork from here" */
+  forkedFrom?: ForkOrigin;
+  /** Imported transcript: shown as is, nothing is sent or synced */
+  readOnly?: boolean;
+  /** Spending limits for this column (see lib/budgets.ts) */
+  budget?: Budget;
+}
+
+/** Where a forked column's transcript was copied from */
+export interface ForkOrigin {
+  /** Source column id */
+  agentId: string;
+  /** Source column name at fork time (the column may be gone since) */
+  name: string;
+  /** Last message copied into the fork */
+  messageId: string;
+  at: number;
+}
+
+/** Agent as reported by the gateway's agents.list */
+export interface GatewayAgentInfo {
+  id: string;
+  name?: string;
+  model?: string;
+  context?: string;
+  workspace?: string;
+  shell?: string;
+  identity?: { name?: string; emoji?: string };
+}
+
+/** One tool invocation by the agent */
+export interface ToolUse {
+  /** Gateway tool call id; matches results to invocations */
+  id?: string;
+  name: string;
+  status: "running" | "done" | "error";
+  args?: unknown;
+  /** Result text (capped in length) */
+  result?: string;
+  durationMs?: number;
+}
+
+/** Why a run failed, as reported by the gateway */
+export interface RunError {
+  /** Gateway error code (GatewayResponse.error.code) */
+  code: string;
+  message: string;
+  /** The user turn that failed; retry sends it again */
+  prompt?: string;
+}
+
+/** Preview of a message a compaction summarized away */
+export interface CompactedMessage {
+  role: ChatMessage["role"];
+  /** Message text, or the tool name for tool calls */
+  text: string;
 }
 
 export interface ChatMessage {
   id: string;
-  role: "user" | "assistant" | "system" | "compaction" | "announcement";
+  role:
+    | "user"
+    | "assistant"
+    | "system"
+    | "compaction"
+    | "announcement"
+    | "tool"
+    | "error";
   text: string;
   timestamp: number;
   /** If assistant is still streaming this message */
   streaming?: boolean;
   /** Agent thinking / status indicator */
   thinking?: boolean;
-  /** Tool use metadata */
-  toolUse?: {
-    name: string;
-    status: "running" | "done" | "error";
-  };
+  /** Model reasoning streamed before (or alongside) the answer */
+  reasoning?: string;
+  /** Tool use metadata (present when role === "tool") */
+  toolUse?: ToolUse;
+  /** Failure details (present when role === "error") */
+  error?: RunError;
   /** Run ID from gateway for tracking streaming responses */
   runId?: string;
   /** Compaction metadata (present when role === "compaction") */
@@ -74,9 +145,27 @@ export interface ChatMessage {
     beforeTokens: number;
     afterTokens: number;
     droppedMessages: number;
+    /** Summary that replaced the dropped messages, if the gateway sent it */
+    summary?: string;
+    /** The messages summarized away, when they could be identified */
+    summarized?: CompactedMessage[];
   };
   /** True when this message is a sub-agent announcement (server-initiated) */
   announcement?: boolean;
+  /** True when the run was stopped before it finished */
+  aborted?: boolean;
+  /** True while a user message waits in the offline outbox */
+  pending?: boolean;
+  /** User turn sent again (retry/regenerate); shown as the earlier copy */
+  resent?: boolean;
+  /** Turns whose user messages share this id are versions of one exchange */
+  versionGroup?: string;
+  /** Copied in when the column was forked; the gateway only has a summary */
+  seeded?: boolean;
+  /** Set on user messages sent by a broadcast (see lib/broadcast.ts) */
+  broadcastId?: string;
+  /** Set on user messages forwarded by a pipeline */
+  pipeline?: PipelineHop;
 }
 
 export interface SessionUsage {
@@ -94,16 +183,166 @@ export interface SessionUsage {
 
 export interface AgentSession {
   agentId: string;
+  /** Gateway session this column is showing and sending to */
+  sessionKey: string;
   status: AgentStatus;
   messages: ChatMessage[];
   /** Current streaming run ID */
   activeRunId: string | null;
   /** Token count for this session */
   tokenCount: number;
+  /** A compaction requested from the deck hasn't been reported yet */
+  compacting?: boolean;
   /** Whether the WS connection to this agent's session is live */
   connected: boolean;
   /** Real usage data from gateway */
   usage?: SessionUsage;
+  /** Events were missed mid-run; re-fetch history once the run finalizes */
+  needsResync?: boolean;
+  /** Paging state for older chat.history (unset until the first fetch) */
+  history?: HistoryPaging;
+  /** Set by /clear; gateway messages up to this time stay hidden */
+  clearedAt?: number;
+}
+
+export interface HistoryPaging {
+  /** Gateway cursor for the page before the oldest loaded message, if any */
+  cursor: string | null;
+  /** Raw gateway messages fetched so far (the offset when there is no cursor) */
+  fetched: number;
+  /** The beginning of the conversation has been reached */
+  exhausted: boolean;
+  loading: boolean;
+}
+
+/** Session as reported by the gateway's sessions.list */
+export interface GatewaySessionInfo {
+  key: string;
+  label?: string;
+  displayName?: string;
+  updatedAt?: number;
+  totalTokens?: number;
+  model?: string;
+}
+
+// ─── Offline Outbox ───
+
+/** A prompt typed while the gateway was unreachable, replayed after the next handshake */
+export interface OutboxItem {
+  /** Same id as the pending ChatMessage shown in the column */
+  id: string;
+  /** Column the prompt was typed into */
+  columnId: string;
+  /** Gateway agent that runs the turn */
+  agentId: string;
+  sessionKey: string;
+  message: string;
+  /** Reused on every replay so the gateway never starts the same run twice */
+  idempotencyKey: string;
+  queuedAt: number;
+}
+
+export type OutboxEvent =
+  | { type: "replaying"; item: OutboxItem }
+  | { type: "sent"; item: OutboxItem; runId: string }
+  | { type: "failed"; item: OutboxItem; error: Error };
+
+// ─── Pipelines ───
+
+/** When a pipeline link forwards an answer */
+export type PipelineCondition =
+  | { kind: "always" }
+  | { kind: "contains"; text: string }
+  | { kind: "notContains"; text: string }
+  | { kind: "matches"; pattern: string };
+
+/** Forward answers from one column to another */
+export interface PipelineLink {
+  id: string;
+  fromAgentId: string;
+  toAgentId: string;
+  /** Prompt sent to the target; see lib/pipelines.ts for variables */
+  template: string;
+  condition: PipelineCondition;
+}
+
+export interface Pipeline {
+  id: string;
+  name: string;
+  enabled: boolean;
+  /** Forwards allowed from one user prompt before the chain stops */
+  maxHops: number;
+  links: PipelineLink[];
+}
+
+/** Pipeline provenance of a forwarded prompt */
+export interface PipelineHop {
+  pipelineId: string;
+  linkId: string;
+  fromAgentId: string;
+  /** 1 for the first forward after a user prompt */
+  hop: number;
+}
+
+// ─── Snippets ───
+
+/** Reusable prompt; `{{name}}` placeholders are filled in before use */
+export interface Snippet {
+  id: string;
+  name: string;
+  body: string;
+  updatedAt: number;
+}
+
+// ─── Usage History ───
+
+/** Usage recorded for one agent and model on one day */
+export interface UsageBucket {
+  /** Local date, YYYY-MM-DD */
+  day: string;
+  agentId: string;
+  /** Column name when last recorded (the column may be gone since) */
+  agentName: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costCents: number;
+}
+
+/** Cumulative counters of a session as last reported by sessions.usage */
+export interface UsageTotals {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  costCents: number;
+}
+
+export interface UsageSnapshot extends UsageTotals {
+  /** When the snapshot was recorded */
+  at: number;
+}
+
+export interface UsageLedger {
+  buckets: UsageBucket[];
+  /** Last snapshot per gateway session key, to turn snapshots into deltas */
+  lastSeen: Record<string, UsageSnapshot>;
+}
+
+// ─── Budgets ───
+
+export interface BudgetLimit {
+  tokens?: number;
+  costCents?: number;
+}
+
+/** Limits on recorded usage within the current day or month */
+export interface Budget {
+  period: "day" | "month";
+  /** Crossing this warns in the column header */
+  soft?: BudgetLimit;
+  /** Crossing this refuses new turns until overridden */
+  hard?: BudgetLimit;
 }
 
 // ─── Connection Config ───